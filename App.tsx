@@ -1,39 +1,42 @@
 import React, { useState, useEffect, useRef } from 'react';
 import Game from './components/Game';
-import { GameState } from './types';
-
-const TRANSLATIONS = {
-  en: {
-    op: "By__LicseL",
-    title: "PIXEL SAMURAI",
-    kills: "DATA_CORRUPTED",
-    init: "START MISSION",
-    died: "DISCONNECTED",
-    honor: "Connection Terminated",
-    retry: "RESTORE HONOR",
-    menu: "BACK TO MENU",
-    guide: "GUIDE",
-    subtitle: "By__LicseL",
-    lang: "中文",
-    bgmOn: "BGM: ON",
-    bgmOff: "BGM: OFF"
-  },
-  zh: {
-    op: "By__LicseL",
-    title: "像素武士",
-    kills: "数据清除数",
-    init: "启动任务",
-    died: "链接断开",
-    honor: "武士荣誉已丧失",
-    retry: "重拾荣誉",
-    menu: "返回主菜单",
-    guide: "搓招表",
-    subtitle: "By__LicseL",
-    lang: "EN",
-    bgmOn: "音乐: 开",
-    bgmOff: "音乐: 关"
-  }
-};
+import Hud from './components/Hud';
+import { HudState } from './engine/hud';
+import { GameState, GameMode, InputAction, EntityType } from './types';
+import { SIM_TICK_MS, MIN_USER_ZOOM } from './constants';
+import { Replay, parseReplay, serializeReplay } from './engine/replay';
+import { RunSummary, WorldSnapshot } from './engine/GameWorld';
+import { averageRankIndex } from './engine/stats';
+import { STYLE_RANKS } from './engine/style';
+import { TrainingConfig, SpecialMove, DUMMY_TYPES, DUMMY_BEHAVIORS, MAX_DUMMIES, defaultTrainingConfig } from './engine/training';
+import { StyleSharing } from './engine/coop';
+import { randomSeed } from './engine/rng';
+import { LockstepSession } from './net/lockstep';
+import { relay } from './net/RelayClient';
+import { startLocalRelay } from './net/desktopRelay';
+import { NetStart, DEFAULT_RELAY_URL, normalizeRoomCode } from './net/protocol';
+import { HighScore, saveStore } from './storage/saveData';
+import { input, partnerInput, BACK_EVENT } from './input/InputManager';
+import { INPUT_ACTIONS, DEFAULT_BINDINGS, DEFAULT_PARTNER_BINDINGS, Bindings, cloneBindings, rebind, formatKeyCode } from './input/bindings';
+import { audio } from './audio/AudioEngine';
+import { gamepads } from './input/GamepadInput';
+import { BUSES, BusName, BusLevel, MixerSettings, defaultMixer } from './audio/mixer';
+import { AccessibilitySettings, COLORBLIND_MODES, GORE_STYLES, defaultAccessibility } from './render/accessibility';
+import { RendererKind, RendererPreference, RENDERER_PREFERENCES } from './render/Renderer';
+import { Messages, LOCALES, LOCALE_CODES, detectLocale, messagesFor, interpolate } from './i18n';
+
+// The guide lists these in order. Names come from `moves`, inputs from `guideInputs` with the player's own keys filled in.
+const GUIDE_MOVES: SpecialMove[] = ['launcher', 'dash_attack', 'spin_attack', 'downward_strike', 'decoy'];
+const GUIDE_NOTES: { note: keyof Messages['guideNotes'], color: string }[] = [
+  { note: 'heal', color: 'text-red-400' },
+  { note: 'parry', color: 'text-yellow-400' },
+  { note: 'clash', color: 'text-cyan-400' }
+];
+
+// Modes a host can open an online room with.
+const ONLINE_MODES: GameMode[] = ['stage', 'endless', 'versus'];
+
+type NetError = keyof Messages['netErrors'];
 
 const IconLeft = () => (
   <svg width="40" height="40" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="3" strokeLinecap="round" strokeLinejoin="round">
@@ -57,38 +60,458 @@ const IconDodge = () => (
   </svg>
 );
 
+const formatDuration = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
 const App: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>(GameState.START);
   const [score, setScore] = useState(0);
-  const [lang, setLang] = useState<'en' | 'zh'>('zh');
+  const [lang, setLang] = useState<string>(detectLocale);
   const [isMusicOn, setIsMusicOn] = useState(true);
   const [gameKey, setGameKey] = useState(0);
+  const [mode, setMode] = useState<GameMode>('stage');
+  const [players, setPlayers] = useState(1);
+  const [styleSharing, setStyleSharing] = useState<StyleSharing>('shared');
+  const [runSummary, setRunSummary] = useState<RunSummary | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [lastRun, setLastRun] = useState<Replay | null>(null);
+  const [replayCheck, setReplayCheck] = useState<boolean | null>(null);
+  const [replayError, setReplayError] = useState(false);
+  const replayInputRef = useRef<HTMLInputElement>(null);
+  const [bindings, setBindings] = useState<Bindings>(() => cloneBindings(input.bindings));
+  const [partnerBindings, setPartnerBindings] = useState<Bindings>(() => cloneBindings(partnerInput.bindings));
+  // Whose keys the controls screen is showing: 0 for player one, 1 for player two.
+  const [bindingPlayer, setBindingPlayer] = useState(0);
+  const [rebinding, setRebinding] = useState<InputAction | null>(null);
+  const [highScores, setHighScores] = useState<HighScore[]>([]);
+  const [recordRank, setRecordRank] = useState<number | null>(null);
+  const [mixer, setMixer] = useState<MixerSettings>(defaultMixer);
+  const [accessibility, setAccessibility] = useState<AccessibilitySettings>(defaultAccessibility);
+  const [rendererPreference, setRendererPreference] = useState<RendererPreference>('auto');
+  // What Game actually started, which can differ from the preference when WebGL2 is missing or fails.
+  const [rendererKind, setRendererKind] = useState<RendererKind>('canvas');
+  const [training, setTraining] = useState<TrainingConfig>(defaultTrainingConfig);
+  const [hud, setHud] = useState<HudState | null>(null);
+  const [zoom, setZoom] = useState(MIN_USER_ZOOM);
+  const [trainingFeed, setTrainingFeed] = useState<NonNullable<WorldSnapshot['training']> | null>(null);
+  // The state a paused run goes back to; stays set while settings are opened from the pause menu.
+  const [pausedFrom, setPausedFrom] = useState<GameState | null>(null);
+  // --- ONLINE ---
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY_URL);
+  const [room, setRoom] = useState<{ code: string, seat: number, peer: boolean } | null>(null);
+  const [joinCode, setJoinCode] = useState('');
+  const [onlineMode, setOnlineMode] = useState<GameMode>('stage');
+  const [netSession, setNetSession] = useState<LockstepSession | null>(null);
+  // Relay messages are handed to the session as they arrive, before React has re-rendered with it.
+  const netSessionRef = useRef<LockstepSession | null>(null);
+  const roundRef = useRef(0);
+  const [netWaiting, setNetWaiting] = useState(false);
+  const [netError, setNetError] = useState<NetError | null>(null);
+  // The run was paused from the other machine, so the pause menu says who stopped it.
+  const [peerPaused, setPeerPaused] = useState(false);
+
+  useEffect(() => {
+    saveStore.load().then(data => {
+      setLang(data.settings.language);
+      setIsMusicOn(data.settings.musicOn);
+      input.setBindings(cloneBindings(data.settings.bindings));
+      setBindings(cloneBindings(data.settings.bindings));
+      partnerInput.setBindings(cloneBindings(data.settings.partnerBindings));
+      setPartnerBindings(cloneBindings(data.settings.partnerBindings));
+      setStyleSharing(data.settings.styleSharing);
+      setRelayUrl(data.settings.relayUrl);
+      setHighScores(data.highScores);
+      setMixer(data.settings.mixer);
+      audio.setMixer(data.settings.mixer);
+      setAccessibility(data.settings.accessibility);
+      setRendererPreference(data.settings.renderer);
+    });
+  }, []);
 
   const jStartRef = useRef<{ x: number, y: number } | null>(null);
   const swipeTriggeredRef = useRef<boolean>(false);
 
-  const t = TRANSLATIONS[lang];
+  const t = messagesFor(lang);
+  const nextLang = LOCALE_CODES[(LOCALE_CODES.indexOf(lang) + 1) % LOCALE_CODES.length];
+  const enemyName = (type: EntityType) => t.enemies[EntityType[type] as keyof Messages['enemies']];
+
+  // Leaving a paused run for good: its loops were frozen, not stopped, so they would play on in the next screen.
+  const abandonPausedRun = () => {
+    if (pausedFrom === null) return;
+    audio.stopLoop('focus_loop');
+    audio.stopLoop('clash_loop');
+    setPausedFrom(null);
+  };
 
   const handleRestart = () => {
+    // Online, the host restarts both machines with a fresh start; the guest's restart buttons are hidden.
+    if (netSession) { handleOnlineStart(); return; }
+    abandonPausedRun();
     setScore(0);
+    setReplay(null);
+    setReplayCheck(null);
     setGameKey(prev => prev + 1);
     setGameState(GameState.PLAYING);
   };
 
+  const handleToggleMusic = () => {
+    setIsMusicOn(!isMusicOn);
+    saveStore.updateSettings({ musicOn: !isMusicOn });
+  };
+
+  const handleToggleLanguage = () => {
+    setLang(nextLang);
+    saveStore.updateSettings({ language: nextLang });
+  };
+
+  const handleRunFinished = async (summary: RunSummary) => {
+    setRunSummary(summary);
+    setRecordRank(null);
+    // Replays re-run someone's recorded inputs, training has cheats and versus has no score; only live runs go on the table.
+    if (replay || summary.mode === 'training' || summary.mode === 'versus') return;
+    const { stats, players, ...entry } = summary;
+    const rank = await saveStore.recordRun({ ...entry, ...(players > 1 ? { players } : {}), date: new Date().toISOString() });
+    setHighScores(saveStore.current.highScores);
+    setRecordRank(rank);
+  };
+
+  const handleStart = (nextMode: GameMode) => {
+    setMode(nextMode);
+    setTrainingFeed(null);
+    setGameState(GameState.PLAYING);
+  };
+
   const handleBackToMenu = () => {
+    abandonPausedRun();
+    leaveOnline();
+    input.captureNextKey(null);
+    setRebinding(null);
     setGameState(GameState.START);
     setScore(0);
+    setReplay(null);
+    setReplayCheck(null);
+    setGameKey(prev => prev + 1);
+  };
+
+  const pauseRun = () => {
+    if (gameState !== GameState.PLAYING && gameState !== GameState.CLASHING) return false;
+    setPausedFrom(gameState);
+    setGameState(GameState.PAUSED);
+    return true;
+  };
+
+  const resumeRun = () => {
+    if (pausedFrom === null) return false;
+    setGameState(pausedFrom);
+    setPausedFrom(null);
+    setPeerPaused(false);
+    return true;
+  };
+
+  // Online, a pause is sent to the other peer too: lockstep can't step one world while the other sits in a menu.
+  const sharePause = (paused: boolean) => {
+    const session = netSessionRef.current;
+    if (session) relay.send({ type: 'pause', round: session.start.round, paused });
+  };
+
+  const handlePause = () => { if (pauseRun()) sharePause(true); };
+
+  const handleResume = () => { if (resumeRun()) sharePause(false); };
+
+  // Settings screens return to the pause menu when they were opened from it.
+  const handleCloseSettings = () => {
+    if (pausedFrom === null) { handleBackToMenu(); return; }
+    input.captureNextKey(null);
+    setRebinding(null);
+    setGameState(GameState.PAUSED);
+  };
+
+  // Escape and the Android back button step out one level. False on the title screen, where back leaves the app.
+  const handleBack = () => {
+    if (gameState === GameState.START) return false;
+    if (gameState === GameState.PLAYING || gameState === GameState.CLASHING) handlePause();
+    else if (gameState === GameState.PAUSED) handleResume();
+    else if (gameState === GameState.AUDIO || gameState === GameState.ACCESSIBILITY || gameState === GameState.CONTROLS) handleCloseSettings();
+    else handleBackToMenu();
+    return true;
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // A key being captured for rebinding is cancelled by the input manager before it gets here.
+      if (e.code !== 'Escape' || e.repeat || e.defaultPrevented || rebinding) return;
+      handleBack();
+    };
+    const onBack = (e: Event) => { if (handleBack()) e.preventDefault(); };
+    const onHidden = () => { if (document.hidden) handlePause(); };
+    const stopStart = gamepads.onStart(() => { if (gameState === GameState.PAUSED) handleResume(); else handlePause(); });
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener(BACK_EVENT, onBack);
+    window.addEventListener('blur', handlePause);
+    document.addEventListener('visibilitychange', onHidden);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener(BACK_EVENT, onBack);
+      window.removeEventListener('blur', handlePause);
+      document.removeEventListener('visibilitychange', onHidden);
+      stopStart();
+    };
+  });
+
+  const leaveOnline = () => {
+    relay.close();
+    netSessionRef.current = null;
+    setNetSession(null);
+    setRoom(null);
+    setNetWaiting(false);
+    setNetError(null);
+    setPeerPaused(false);
+  };
+
+  const connectRelay = async () => {
+    setNetError(null);
+    if (relay.connected) return true;
+    try {
+      await relay.connect(relayUrl);
+      return true;
+    } catch (err) {
+      console.warn('Relay connection failed', err);
+      setNetError('unreachable');
+      return false;
+    }
+  };
+
+  const handleRelayUrlChange = (url: string) => {
+    setRelayUrl(url);
+    saveStore.updateSettings({ relayUrl: url });
+  };
+
+  const handleHostRoom = async () => {
+    await startLocalRelay(relayUrl);
+    if (await connectRelay()) relay.send({ type: 'host' });
+  };
+
+  const handleJoinRoom = async () => {
+    const code = normalizeRoomCode(joinCode);
+    if (code && await connectRelay()) relay.send({ type: 'join', code });
+  };
+
+  // Both machines build their world from the same start, so the host's seed and settings are the whole setup.
+  const beginOnlineRun = (start: NetStart, seat: number) => {
+    const session = new LockstepSession(seat, start, message => relay.send(message));
+    netSessionRef.current = session;
+    abandonPausedRun();
+    setNetSession(session);
+    setNetWaiting(false);
+    setNetError(null);
+    setPeerPaused(false);
+    setMode(start.mode);
+    setTrainingFeed(null);
+    setScore(0);
+    setReplay(null);
+    setReplayCheck(null);
     setGameKey(prev => prev + 1);
+    setGameState(GameState.PLAYING);
+  };
+
+  const handleOnlineStart = () => {
+    if (!room || room.seat !== 0 || !room.peer) return;
+    const start: NetStart = { seed: randomSeed(), mode: onlineMode, styleSharing, round: ++roundRef.current };
+    relay.send({ type: 'start', start });
+    beginOnlineRun(start, room.seat);
+  };
+
+  // A resume from the other machine also closes any settings screen opened from the pause menu.
+  const handlePeerPause = (paused: boolean) => {
+    if (paused) { if (pauseRun()) setPeerPaused(true); return; }
+    input.captureNextKey(null);
+    setRebinding(null);
+    resumeRun();
+  };
+
+  // Re-subscribed every render like the key handlers above, so the handlers always see the current room.
+  useEffect(() => {
+    const stopMessages = relay.onMessage(message => {
+      if (message.type === 'room') setRoom({ code: message.code, seat: message.seat, peer: message.seat > 0 });
+      else if (message.type === 'peer_joined') setRoom(r => r && { ...r, peer: true });
+      else if (message.type === 'peer_left') { setRoom(r => r && { ...r, peer: false }); setNetError('peer_left'); }
+      else if (message.type === 'error') setNetError(message.reason);
+      else if (message.type === 'start') { if (room) beginOnlineRun(message.start, room.seat); }
+      else if (message.type === 'pause') { if (message.round === netSessionRef.current?.start.round) handlePeerPause(message.paused); }
+      else netSessionRef.current?.receive(message);
+    });
+    const stopClose = relay.onClose(() => { setRoom(null); setNetError('lost'); });
+    return () => { stopMessages(); stopClose(); };
+  });
+
+  const handleSaveReplay = () => {
+    if (!lastRun) return;
+    const url = URL.createObjectURL(new Blob([serializeReplay(lastRun)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `pixel-samurai-${lastRun.seed}.replay.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleLoadReplay = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setReplay(parseReplay(await file.text()));
+      setReplayError(false);
+      setReplayCheck(null);
+      setScore(0);
+      setGameKey(prev => prev + 1);
+      setGameState(GameState.PLAYING);
+    } catch (err) {
+      console.warn('Replay load failed', err);
+      setReplayError(true);
+    }
+  };
+
+  const handleToggleStyleSharing = () => {
+    const next: StyleSharing = styleSharing === 'shared' ? 'split' : 'shared';
+    setStyleSharing(next);
+    saveStore.updateSettings({ styleSharing: next });
+  };
+
+  // Both players type on the same keyboard, so key capture always runs through player one's manager.
+  const storeBindings = (player: number, next: Bindings) => {
+    if (player === 0) {
+      input.setBindings(next);
+      setBindings(cloneBindings(next));
+      saveStore.updateSettings({ bindings: cloneBindings(next) });
+    } else {
+      partnerInput.setBindings(next);
+      setPartnerBindings(cloneBindings(next));
+      saveStore.updateSettings({ partnerBindings: cloneBindings(next) });
+    }
   };
 
-  const triggerKey = (code: string, isDown: boolean) => {
-    const event = new KeyboardEvent(isDown ? 'keydown' : 'keyup', { 
-      code, 
-      key: code.replace('Key', '').toLowerCase(),
-      bubbles: true,
-      cancelable: true
+  const handleRebind = (action: InputAction) => {
+    const player = bindingPlayer;
+    setRebinding(action);
+    input.captureNextKey(code => {
+      // Escape cancels instead of being bound, so the screen can never lose its way back.
+      if (code !== 'Escape') storeBindings(player, rebind((player === 0 ? input : partnerInput).bindings, action, code));
+      setRebinding(null);
     });
-    window.dispatchEvent(event);
+  };
+
+  const handleResetBindings = () => {
+    input.captureNextKey(null);
+    storeBindings(bindingPlayer, cloneBindings(bindingPlayer === 0 ? DEFAULT_BINDINGS : DEFAULT_PARTNER_BINDINGS));
+    setRebinding(null);
+  };
+
+  const handleSelectBindingPlayer = (player: number) => {
+    input.captureNextKey(null);
+    setRebinding(null);
+    setBindingPlayer(player);
+  };
+
+  const applyMixer = (next: MixerSettings) => {
+    setMixer(next);
+    audio.setMixer(next);
+    saveStore.updateSettings({ mixer: next });
+  };
+
+  const handleMixerChange = (channel: 'master' | BusName, patch: Partial<BusLevel>) => {
+    if (channel === 'master') applyMixer({ ...mixer, master: { ...mixer.master, ...patch } });
+    else applyMixer({ ...mixer, buses: { ...mixer.buses, [channel]: { ...mixer.buses[channel], ...patch } } });
+  };
+
+  // A short cue on the UI bus so a level change can be heard from the menu, where no music or combat is playing.
+  const previewMixer = () => {
+    audio.init().then(() => audio.playAsset('reflect', 0.5, 1.6, undefined, 'ui'));
+  };
+
+  const handleAccessibilityChange = (patch: Partial<AccessibilitySettings>) => {
+    const next = { ...accessibility, ...patch };
+    setAccessibility(next);
+    saveStore.updateSettings({ accessibility: next });
+  };
+
+  const cycle = <T,>(options: T[], current: T) => options[(options.indexOf(current) + 1) % options.length];
+
+  const handleRendererChange = () => {
+    const next = cycle(RENDERER_PREFERENCES, rendererPreference);
+    setRendererPreference(next);
+    saveStore.updateSettings({ renderer: next });
+  };
+
+  const statTile = (label: string, value: React.ReactNode, color = '') => (
+    <div><div className="text-white/60 text-[10px] tracking-[0.3em] font-bold">{label}</div><div className={`text-2xl font-black ${color}`}>{value}</div></div>
+  );
+
+  // Online, only the host can start the next run, and only with the guest still in the room.
+  const canRestart = !netSession || (!!room && room.seat === 0 && room.peer);
+  const netNotice = netSession && netError && <p className="text-sm mb-6 font-bold tracking-[0.3em] text-red-500">{t.netErrors[netError]}</p>;
+  const versusResult = runSummary?.mode === 'versus'
+    ? (runSummary.winner === null || runSummary.winner === undefined ? t.versusDraw : interpolate(t.versusWins, { player: [t.player1, t.player2][runSummary.winner] }))
+    : null;
+
+  // Shared by the game-over and victory screens.
+  const runStatsPanel = runSummary && (() => {
+    const { stats } = runSummary;
+    const totalTicks = stats.rankTicks.reduce((sum, ticks) => sum + ticks, 0);
+    return (
+      <div className="flex flex-col items-center gap-4 mb-8 text-center w-full max-w-2xl">
+        <div className="flex gap-8">
+          {statTile(t.time, formatDuration(runSummary.durationMs))}
+          {statTile(t.kills, runSummary.kills, 'text-red-500')}
+          {statTile(t.peakRank, runSummary.peakRank, 'text-yellow-400')}
+          {statTile(t.avgRank, STYLE_RANKS[Math.round(averageRankIndex(stats))].name, 'text-yellow-400')}
+          {statTile(t.longestCombo, stats.longestCombo)}
+        </div>
+        <div className="flex gap-8">
+          {statTile(t.bossesKilled, stats.bossesKilled)}
+          {statTile(t.parries, stats.parries, 'text-cyan-400')}
+          {statTile(t.clashes, `${stats.clashesWon}/${stats.clashesLost}`)}
+          {statTile(t.damageTaken, stats.damageTaken.map(Math.round).join('/'), 'text-red-500')}
+        </div>
+        {Object.keys(stats.killsByType).length > 0 && (
+          <div className="flex gap-4 text-[10px] font-bold tracking-widest text-white/60">
+            {Object.entries(stats.killsByType).map(([type, count]) => (
+              <span key={type}>{enemyName(Number(type))} <span className="text-white">×{count}</span></span>
+            ))}
+          </div>
+        )}
+        {totalTicks > 0 && (
+          <div className="w-full">
+            <div className="text-white/60 text-[10px] tracking-[0.3em] font-bold mb-2">{t.rankTime}</div>
+            <div className="flex w-full h-4 border border-white/20">
+              {stats.rankTicks.map((ticks, i) => ticks > 0 && (
+                <div key={i} className="h-full bg-yellow-400 text-black text-[8px] font-black overflow-hidden" style={{ width: `${ticks / totalTicks * 100}%`, opacity: 0.3 + 0.7 * i / (STYLE_RANKS.length - 1) }} title={`${STYLE_RANKS[i].name} ${formatDuration(ticks * SIM_TICK_MS)}`}>
+                  {STYLE_RANKS[i].name}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  })();
+
+  // Training panel buttons give up focus straight away, so Space (jump) can't re-press them.
+  const handleTrainingChange = (patch: Partial<TrainingConfig>, e: React.MouseEvent<HTMLButtonElement>) => {
+    e.currentTarget.blur();
+    setTraining(prev => ({ ...prev, ...patch }));
+  };
+
+  const inputGlyph = (action: InputAction) =>
+    ({ left: '←', right: '→', up: '↑', down: '↓' } as Partial<Record<InputAction, string>>)[action] || formatKeyCode(bindings[action][0] || action);
+
+  const keyGlyphs = Object.fromEntries(INPUT_ACTIONS.map(action => [action, inputGlyph(action)]));
+
+  // The touch overlay drives actions directly, under its own source so it never fights the keyboard.
+  const touch = (action: InputAction, isDown: boolean) => {
+    if (isDown) input.press(action, 'touch');
+    else input.release(action, 'touch');
   };
 
   const handleAttackAreaDown = (e: React.PointerEvent) => {
@@ -96,7 +519,7 @@ const App: React.FC = () => {
     swipeTriggeredRef.current = false;
     const target = e.currentTarget as HTMLElement;
     target.setPointerCapture(e.pointerId);
-    triggerKey('KeyJ', true);
+    touch('attack', true);
   };
 
   const handleAttackAreaMove = (e: React.PointerEvent) => {
@@ -105,22 +528,23 @@ const App: React.FC = () => {
     const swipeThreshold = 12;
     if (Math.abs(dy) > swipeThreshold) {
       swipeTriggeredRef.current = true;
-      const key = dy < 0 ? 'KeyW' : 'KeyS';
-      triggerKey(key, true);
-      triggerKey('KeyJ', false);
+      const direction = dy < 0 ? 'up' : 'down';
+      touch(direction, true);
+      touch('attack', false);
+      // Re-press attack a couple of ticks later so the simulation sees a fresh press with the direction held.
       setTimeout(() => {
-        triggerKey('KeyJ', true);
+        touch('attack', true);
         setTimeout(() => {
-          triggerKey('KeyJ', false);
-          triggerKey(key, false);
+          touch('attack', false);
+          touch(direction, false);
         }, 80);
-      }, 15);
+      }, SIM_TICK_MS * 2);
     }
   };
 
   const handleAttackAreaUp = (e: React.PointerEvent) => {
     if (!jStartRef.current) return;
-    if (!swipeTriggeredRef.current) triggerKey('KeyJ', false);
+    if (!swipeTriggeredRef.current) touch('attack', false);
     jStartRef.current = null;
     swipeTriggeredRef.current = false;
     const target = e.currentTarget as HTMLElement;
@@ -128,13 +552,14 @@ const App: React.FC = () => {
   };
 
   return (
-    <div className="relative w-screen h-screen flex flex-col items-center justify-center bg-[#030308] overflow-hidden crt select-none touch-none">
+    <div className={`relative w-screen h-screen flex flex-col items-center justify-center bg-[#030308] overflow-hidden ${rendererKind === 'canvas' ? 'crt' : ''} select-none touch-none`}>
       {/* HUD (仅在非主菜单状态显示) */}
       {gameState !== GameState.START && (
         <div className="absolute top-6 left-1/2 -translate-x-1/2 w-full max-w-6xl flex justify-between px-6 z-20 pointer-events-none">
           <div className="flex flex-col items-start border-l-4 border-cyan-500 pl-4">
             <div className="text-white text-[8px] tracking-[0.3em] font-bold opacity-60 italic">{t.op}</div>
             <div className="text-cyan-400 text-xl font-black italic">{t.title}</div>
+            {replay && <div className="text-red-500 text-[10px] tracking-[0.3em] font-bold animate-pulse">● {t.replayBadge}</div>}
           </div>
           <div className="flex flex-col items-end border-r-4 border-red-500 pr-4">
             <div className="text-white text-[8px] tracking-[0.3em] font-bold opacity-60 italic">{t.kills}</div>
@@ -143,26 +568,128 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {hud && (gameState === GameState.PLAYING || gameState === GameState.CLASHING) && (
+        <Hud
+          hud={hud}
+          labels={{ health: t.hp, focus: t.focus, zoom: t.zoom, style: t.style, combo: t.combo, rankUp: t.rankUp, partner: t.player2, downed: t.downed, mash: interpolate(t.mash, { key: formatKeyCode(bindings.attack[0] || 'KeyJ') }), tapOff: interpolate(t.tapOff, { key: formatKeyCode(bindings.attack[0] || 'KeyJ') }) }}
+          zoom={zoom}
+          onZoomChange={setZoom}
+          reduceFlashes={accessibility.reduceFlashes}
+        />
+      )}
+
       <Game 
         key={gameKey}
         currentGameState={gameState}
         onStateChange={setGameState} 
         onScoreUpdate={(s) => setScore(s)} 
-        language={lang}
         isMusicOn={isMusicOn}
+        paused={pausedFrom !== null}
+        mode={mode}
+        players={players}
+        styleSharing={styleSharing}
+        accessibility={accessibility}
+        renderer={rendererPreference}
+        onRendererReady={setRendererKind}
+        zoom={zoom}
+        onHudUpdate={setHud}
+        replay={replay}
+        onRunRecorded={setLastRun}
+        onReplayChecked={setReplayCheck}
+        onRunFinished={handleRunFinished}
+        training={mode === 'training' ? training : undefined}
+        onTrainingUpdate={setTrainingFeed}
+        net={netSession}
+        onNetWaiting={setNetWaiting}
+        onDesync={() => setNetError('desync')}
       />
 
+      {/* 录像中断 */}
+      {replay && replayCheck === false && (gameState === GameState.PLAYING || gameState === GameState.CLASHING) && (
+        <div className="absolute inset-x-0 top-1/3 z-40 flex flex-col items-center gap-4 pointer-events-none">
+          <p className="text-lg font-black tracking-[0.3em] text-red-500">{t.replayDesync}</p>
+          <button onClick={handleBackToMenu} className="pointer-events-auto px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.menu}</button>
+        </div>
+      )}
+
+      {/* 联机状态 */}
+      {netSession && (netError || netWaiting) && (gameState === GameState.PLAYING || gameState === GameState.CLASHING) && (
+        <div className="absolute inset-x-0 top-1/3 z-40 flex flex-col items-center gap-4 pointer-events-none">
+          <p className={`text-lg font-black tracking-[0.3em] ${netError ? 'text-red-500' : 'text-white animate-pulse'}`}>{netError ? t.netErrors[netError] : t.netWaiting}</p>
+          {netError && <button onClick={handleBackToMenu} className="pointer-events-auto px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.menu}</button>}
+        </div>
+      )}
+
+      {/* 训练模式面板 */}
+      {mode === 'training' && !replay && (gameState === GameState.PLAYING || gameState === GameState.CLASHING) && (
+        <>
+          <div className="absolute top-40 left-6 z-40 flex flex-col gap-1 text-[10px] font-bold tracking-widest text-white/60 bg-black/60 p-4 border-l-4 border-cyan-500">
+            <p className="text-cyan-400">{t.training}</p>
+            <button onClick={e => handleTrainingChange({ dummyType: DUMMY_TYPES[(DUMMY_TYPES.indexOf(training.dummyType) + 1) % DUMMY_TYPES.length] }, e)} className="flex justify-between gap-4 px-3 py-1 border border-white/20 active:bg-white/10">
+              <span>{t.dummy}</span><span className="text-white">{enemyName(training.dummyType)}</span>
+            </button>
+            <button onClick={e => handleTrainingChange({ behavior: DUMMY_BEHAVIORS[(DUMMY_BEHAVIORS.indexOf(training.behavior) + 1) % DUMMY_BEHAVIORS.length] }, e)} className="flex justify-between gap-4 px-3 py-1 border border-white/20 active:bg-white/10">
+              <span>{t.behavior}</span><span className="text-white">{t.behaviors[training.behavior]}</span>
+            </button>
+            <button onClick={e => handleTrainingChange({ count: training.count % MAX_DUMMIES + 1 }, e)} className="flex justify-between gap-4 px-3 py-1 border border-white/20 active:bg-white/10">
+              <span>{t.dummyCount}</span><span className="text-white">{training.count}</span>
+            </button>
+            <button onClick={e => handleTrainingChange({ infiniteHealth: !training.infiniteHealth }, e)} className="flex justify-between gap-4 px-3 py-1 border border-white/20 active:bg-white/10">
+              <span>{t.infiniteHealth}</span><span className={training.infiniteHealth ? 'text-cyan-400' : 'text-white'}>{training.infiniteHealth ? t.on : t.off}</span>
+            </button>
+            <button onClick={e => handleTrainingChange({ infiniteFocus: !training.infiniteFocus }, e)} className="flex justify-between gap-4 px-3 py-1 border border-white/20 active:bg-white/10">
+              <span>{t.infiniteFocus}</span><span className={training.infiniteFocus ? 'text-cyan-400' : 'text-white'}>{training.infiniteFocus ? t.on : t.off}</span>
+            </button>
+            <button onClick={handleBackToMenu} className="px-3 py-1 border border-white/40 text-white active:bg-white/10">{t.menu}</button>
+          </div>
+          {trainingFeed && (
+            <div className="absolute top-28 left-1/2 -translate-x-1/2 z-30 flex flex-col items-center gap-2 pointer-events-none text-[10px] font-bold tracking-widest">
+              <div className="flex gap-2">
+                {trainingFeed.inputHistory.map((h, i) => (
+                  <span key={`${h.time}-${i}`} className={`px-2 py-1 border ${h.key === 'attack' ? 'border-yellow-400 text-yellow-400' : 'border-white/40 text-white'}`}>{inputGlyph(h.key)}</span>
+                ))}
+              </div>
+              {[...trainingFeed.moveLog].reverse().map((m, i) => (
+                <p key={`${m.time}-${i}`} className={m.missed ? 'text-red-500' : 'text-cyan-400'} style={{ opacity: 1 - i * 0.15 }}>
+                  {m.missed ? `✕ ${t.moves[m.move]} — ${t.misses[m.missed]}` : `✓ ${t.moves[m.move]}`}
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
       {/* 战斗操作覆盖层 */}
-      {(gameState === GameState.PLAYING || gameState === GameState.CLASHING) && (
+      {!replay && (gameState === GameState.PLAYING || gameState === GameState.CLASHING) && (
         <div className="absolute inset-0 z-30 pointer-events-none">
           <div className="absolute bottom-10 left-10 flex gap-8 pointer-events-auto">
-             <button onPointerDown={() => triggerKey('KeyA', true)} onPointerUp={() => triggerKey('KeyA', false)} onPointerLeave={() => triggerKey('KeyA', false)} className="w-24 h-24 bg-white/5 border-2 border-white/20 rounded-xl flex items-center justify-center active:bg-cyan-500/30 active:border-cyan-400 transition-colors text-white/40 active:text-cyan-400"><IconLeft /></button>
-             <button onPointerDown={() => triggerKey('KeyD', true)} onPointerUp={() => triggerKey('KeyD', false)} onPointerLeave={() => triggerKey('KeyD', false)} className="w-24 h-24 bg-white/5 border-2 border-white/20 rounded-xl flex items-center justify-center active:bg-cyan-500/30 active:border-cyan-400 transition-colors text-white/40 active:text-cyan-400"><IconRight /></button>
+             <button onPointerDown={() => touch('left', true)} onPointerUp={() => touch('left', false)} onPointerLeave={() => touch('left', false)} className="w-24 h-24 bg-white/5 border-2 border-white/20 rounded-xl flex items-center justify-center active:bg-cyan-500/30 active:border-cyan-400 transition-colors text-white/40 active:text-cyan-400"><IconLeft /></button>
+             <button onPointerDown={() => touch('right', true)} onPointerUp={() => touch('right', false)} onPointerLeave={() => touch('right', false)} className="w-24 h-24 bg-white/5 border-2 border-white/20 rounded-xl flex items-center justify-center active:bg-cyan-500/30 active:border-cyan-400 transition-colors text-white/40 active:text-cyan-400"><IconRight /></button>
           </div>
           <button onPointerDown={handleAttackAreaDown} onPointerMove={handleAttackAreaMove} onPointerUp={handleAttackAreaUp} onPointerCancel={handleAttackAreaUp} style={{ left: '50%', width: '50%' }} className="absolute top-0 h-full z-10 pointer-events-auto bg-transparent border-none outline-none appearance-none cursor-default opacity-0" aria-label="Attack Area" />
           <div className="absolute bottom-12 right-12 flex flex-col gap-6 items-end pointer-events-auto z-20">
-             <button onPointerDown={() => triggerKey('KeyK', true)} onPointerUp={() => triggerKey('KeyK', false)} className="w-20 h-20 rounded-full border-2 border-cyan-400/30 bg-cyan-950/10 flex items-center justify-center text-cyan-400/40 active:scale-90 transition-transform active:text-cyan-400 active:border-cyan-400"><IconSlowMo /></button>
-             <button onPointerDown={() => triggerKey('KeyL', true)} onPointerUp={() => triggerKey('KeyL', false)} className="w-16 h-16 rounded-full border border-white/10 bg-white/5 flex items-center justify-center text-white/20 active:bg-white/20 active:text-white/60 transition-colors"><IconDodge /></button>
+             <button onPointerDown={() => touch('focus', true)} onPointerUp={() => touch('focus', false)} className="w-20 h-20 rounded-full border-2 border-cyan-400/30 bg-cyan-950/10 flex items-center justify-center text-cyan-400/40 active:scale-90 transition-transform active:text-cyan-400 active:border-cyan-400"><IconSlowMo /></button>
+             <button onPointerDown={() => touch('dodge', true)} onPointerUp={() => touch('dodge', false)} className="w-16 h-16 rounded-full border border-white/10 bg-white/5 flex items-center justify-center text-white/20 active:bg-white/20 active:text-white/60 transition-colors"><IconDodge /></button>
+          </div>
+        </div>
+      )}
+
+      {/* 暂停菜单 */}
+      {gameState === GameState.PAUSED && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/80 text-white backdrop-blur-xl p-6">
+          <h1 className="text-6xl font-black italic tracking-tighter uppercase text-cyan-400 mb-12">{t.paused}</h1>
+          {netNotice}
+          {peerPaused && <p className="text-sm mb-6 font-bold tracking-[0.3em] text-white/60">{t.netPeerPaused}</p>}
+          <div className="flex flex-col gap-4 w-full max-w-xs">
+            <button onClick={handleResume} autoFocus className="px-10 py-6 border-4 border-cyan-400 text-2xl font-black text-cyan-400 active:bg-cyan-400 active:text-black transition-all shadow-[0_0_50px_rgba(34,211,238,0.3)]">{t.resume}</button>
+            {canRestart && <button onClick={handleRestart} className="px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.restart}</button>}
+            <p className="text-white/60 text-[10px] tracking-[0.3em] font-bold text-center mt-3">{t.settings}</p>
+            <div className="grid grid-cols-3 gap-2">
+              <button onClick={() => setGameState(GameState.AUDIO)} className="px-2 py-3 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest active:bg-white/10">{t.audio}</button>
+              <button onClick={() => setGameState(GameState.ACCESSIBILITY)} className="px-2 py-3 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest active:bg-white/10">{t.accessibility}</button>
+              <button onClick={() => setGameState(GameState.CONTROLS)} className="px-2 py-3 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest active:bg-white/10">{t.controls}</button>
+            </div>
+            <button onClick={handleBackToMenu} className="px-10 py-4 border-2 border-red-600 text-sm font-bold text-red-500 active:bg-red-600 active:text-white transition-all">{t.quit}</button>
           </div>
         </div>
       )}
@@ -172,11 +699,37 @@ const App: React.FC = () => {
         <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/95 text-white backdrop-blur-xl p-6 overflow-hidden">
           {/* 左上角设置项：音乐与语言 */}
           <div className="absolute top-10 left-10 flex flex-col gap-4 z-50">
-             <button onClick={() => setIsMusicOn(!isMusicOn)} className="px-6 py-4 border-2 border-cyan-500/40 text-[10px] text-cyan-400 font-bold tracking-widest uppercase active:bg-cyan-500/10 w-44 text-left">
-               {isMusicOn ? 'MUSIC: ON' : 'MUSIC: OFF'}
+             <button onClick={handleToggleMusic} className="px-6 py-4 border-2 border-cyan-500/40 text-[10px] text-cyan-400 font-bold tracking-widest uppercase active:bg-cyan-500/10 w-44 text-left">
+               {isMusicOn ? t.bgmOn : t.bgmOff}
+             </button>
+             <button onClick={handleToggleLanguage} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
+               {LOCALES[nextLang].name}
+             </button>
+             {/* 读取录像 */}
+             <button onClick={() => replayInputRef.current?.click()} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
+               {t.loadReplay}
+             </button>
+             <input ref={replayInputRef} type="file" accept=".json,application/json" onChange={handleLoadReplay} className="hidden" />
+             {replayError && <p className="text-red-500 text-[10px] font-bold tracking-widest">{t.replayInvalid}</p>}
+             {/* 联机 */}
+             <button onClick={() => setGameState(GameState.ONLINE)} className="px-6 py-4 border-2 border-cyan-500/40 text-[10px] text-cyan-400 font-bold tracking-widest uppercase active:bg-cyan-500/10 w-44 text-left">
+               {t.online}
+             </button>
+             {/* 战绩 */}
+             <button onClick={() => setGameState(GameState.RECORDS)} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
+               {t.records}
+             </button>
+             {/* 音量设置 */}
+             <button onClick={() => setGameState(GameState.AUDIO)} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
+               {t.audio}
              </button>
-             <button onClick={() => setLang(l => l === 'en' ? 'zh' : 'en')} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
-               {t.lang}
+             {/* 辅助功能 */}
+             <button onClick={() => setGameState(GameState.ACCESSIBILITY)} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
+               {t.accessibility}
+             </button>
+             {/* 按键设置 */}
+             <button onClick={() => setGameState(GameState.CONTROLS)} className="px-6 py-4 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 w-44 text-left">
+               {t.controls}
              </button>
           </div>
 
@@ -194,10 +747,76 @@ const App: React.FC = () => {
           </div>
 
           {/* 启动任务按钮 */}
-          <button onClick={() => setGameState(GameState.PLAYING)} className="group relative z-20 px-28 py-14 flex items-center justify-center overflow-hidden border-4 border-cyan-400 text-cyan-400 text-5xl font-black tracking-[0.4em] active:scale-95 transition-all shadow-[0_0_80px_rgba(34,211,238,0.25)] bg-black/40 backdrop-blur-sm">
+          <button onClick={() => handleStart('stage')} className="group relative z-20 px-28 py-14 flex items-center justify-center overflow-hidden border-4 border-cyan-400 text-cyan-400 text-5xl font-black tracking-[0.4em] active:scale-95 transition-all shadow-[0_0_80px_rgba(34,211,238,0.25)] bg-black/40 backdrop-blur-sm">
             <span className="relative z-10 text-center">{t.init}</span>
             <div className="absolute inset-0 bg-cyan-400 translate-y-full group-active:translate-y-0 transition-transform"></div>
           </button>
+          <button onClick={() => handleStart('endless')} className="relative z-20 mt-6 px-12 py-4 border-2 border-white/20 text-white/60 text-sm font-bold tracking-widest uppercase active:bg-white/10 transition-all">
+            {t.endless}
+          </button>
+          <button onClick={() => handleStart('training')} className="relative z-20 mt-3 px-12 py-4 border-2 border-white/20 text-white/60 text-sm font-bold tracking-widest uppercase active:bg-white/10 transition-all">
+            {t.training}
+          </button>
+          {players > 1 && (
+            <button onClick={() => handleStart('versus')} className="relative z-20 mt-3 px-12 py-4 border-2 border-cyan-400 text-cyan-400 text-sm font-bold tracking-widest uppercase active:bg-cyan-500/10 transition-all">
+              {t.versus}
+            </button>
+          )}
+          {/* 单人 / 双人合作 */}
+          <div className="relative z-20 mt-6 flex gap-3">
+            <button onClick={() => setPlayers(players === 1 ? 2 : 1)} className={`px-8 py-3 border-2 text-[10px] font-bold tracking-widest uppercase transition-all ${players > 1 ? 'border-cyan-400 text-cyan-400' : 'border-white/20 text-white/60'} active:bg-white/10`}>
+              {players > 1 ? t.coop : t.solo}
+            </button>
+            {players > 1 && (
+              <button onClick={handleToggleStyleSharing} className="px-8 py-3 border-2 border-white/20 text-[10px] text-white/60 font-bold tracking-widest uppercase active:bg-white/10 transition-all">
+                {styleSharing === 'shared' ? t.styleShared : t.styleSplit}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 联机大厅 */}
+      {gameState === GameState.ONLINE && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-white backdrop-blur-xl p-6 overflow-hidden">
+          <div className="bg-zinc-900/60 p-10 border-t border-b border-cyan-500/20 w-full max-w-3xl shadow-[0_0_100px_rgba(34,211,238,0.1)] flex flex-col gap-4 text-sm font-bold tracking-widest">
+            <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-2 text-center">- {t.online} -</p>
+            {!room ? (
+              <>
+                <label className="flex items-center gap-4">
+                  <span className="w-44 text-white/60">{t.relayUrl}</span>
+                  <input type="text" value={relayUrl} onChange={e => handleRelayUrlChange(e.target.value)} spellCheck={false} className="flex-1 px-3 py-2 bg-black/60 border-2 border-white/20 text-white" />
+                </label>
+                <button onClick={handleHostRoom} className="px-6 py-4 border-2 border-cyan-400 text-cyan-400 active:bg-cyan-500/10 transition-all">{t.hostRoom}</button>
+                <div className="flex gap-4">
+                  <input type="text" value={joinCode} onChange={e => setJoinCode(normalizeRoomCode(e.target.value))} maxLength={8} placeholder={t.roomCode} spellCheck={false} className="flex-1 px-3 py-2 bg-black/60 border-2 border-white/20 text-white tracking-[0.5em] uppercase" />
+                  <button onClick={handleJoinRoom} disabled={!joinCode} className="px-10 py-4 border-2 border-white/40 active:bg-white active:text-black transition-all">{t.joinRoom}</button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="flex justify-between items-end">
+                  <span className="text-white/60">{t.roomCode}</span>
+                  <span className="text-5xl font-black text-yellow-400 tracking-[0.3em]">{room.code}</span>
+                </div>
+                <p className="text-cyan-400">{interpolate(t.youAre, { player: room.seat === 0 ? t.player1 : t.player2 })}</p>
+                <p className={room.peer && room.seat === 0 ? 'text-white' : 'text-white/60 animate-pulse'}>{room.seat !== 0 ? t.roomWaitingHost : room.peer ? t.roomReady : t.roomWaiting}</p>
+                {room.seat === 0 && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <button onClick={() => setOnlineMode(cycle(ONLINE_MODES, onlineMode))} className="px-6 py-3 border-2 border-white/20 text-white/60 active:bg-white/10">
+                      {onlineMode === 'versus' ? t.versus : onlineMode === 'stage' ? t.modeStage : t.modeEndless}
+                    </button>
+                    <button onClick={handleToggleStyleSharing} disabled={onlineMode === 'versus'} className="px-6 py-3 border-2 border-white/20 text-white/60 active:bg-white/10 disabled:opacity-40">
+                      {styleSharing === 'shared' ? t.styleShared : t.styleSplit}
+                    </button>
+                    <button onClick={handleOnlineStart} disabled={!room.peer} className="col-span-2 px-6 py-4 border-4 border-cyan-400 text-cyan-400 text-lg font-black active:bg-cyan-400 active:text-black transition-all disabled:opacity-40">{t.startRun}</button>
+                  </div>
+                )}
+              </>
+            )}
+            {netError && <p className="text-red-500 text-[10px] text-center">{t.netErrors[netError]}</p>}
+          </div>
+          <button onClick={handleBackToMenu} className="mt-12 px-12 py-6 border-2 border-white/40 text-lg font-black active:bg-white active:text-black transition-all hover:bg-white/5 uppercase tracking-widest">{t.menu}</button>
         </div>
       )}
 
@@ -205,36 +824,145 @@ const App: React.FC = () => {
       {gameState === GameState.GUIDE && (
         <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-white backdrop-blur-xl p-6 overflow-hidden">
            <div className="text-[10px] leading-relaxed bg-zinc-900/60 p-10 border-t border-b border-cyan-500/20 w-full max-w-3xl transform shadow-[0_0_100px_rgba(34,211,238,0.1)]">
-            {lang === 'zh' ? (
-              <div className="space-y-4 text-center">
-                <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6">- 搓招表 -</p>
-                <div className="grid grid-cols-1 gap-3 text-lg opacity-90 font-bold">
-                  <p>↑ + 攻击 === 上挑</p>
-                  <p>←← / →→ + 攻击 === 突刺</p>
-                  <p>长按攻击 === 力场展开</p>
-                  <p>空中时 ↓ + 攻击 === 下砸</p>
-                  <p>长按闪避 === 释放分身</p>
-                  <div className="h-4"></div>
-                  <p className="text-red-400">• 回血机制：每杀死一人回血 15%</p>
-                  <p className="text-yellow-400">• 弹反：成功弹反飞镖评估等级 +1</p>
-                  <p className="text-cyan-400">• 拼刀：成功等级 +2 | 失败等级 -2</p>
-                </div>
+            <div className="space-y-4 text-center">
+              <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6">{t.guideTitle}</p>
+              <div className="grid grid-cols-1 gap-3 text-lg opacity-90 font-bold">
+                {GUIDE_MOVES.map(move => (
+                  <p key={move}>{interpolate(t.guideInputs[move], keyGlyphs)} === {t.moves[move]}</p>
+                ))}
+                <div className="h-4"></div>
+                {GUIDE_NOTES.map(({ note, color }) => <p key={note} className={color}>{t.guideNotes[note]}</p>)}
               </div>
-            ) : (
-              <div className="space-y-4 text-center uppercase">
-                <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6">- COMBAT GUIDE -</p>
-                <div className="grid grid-cols-1 gap-3 text-sm opacity-90 font-bold">
-                  <p>UP + J === LAUNCHER</p>
-                  <p>AA / DD + J === DASH ATTACK / PIERCE</p>
-                  <p>HOLD J === FORCE FIELD SPIN</p>
-                  <p>AIR + DOWN + J === DOWNWARD SLAM</p>
-                  <p>HOLD L === RELEASE DECOY</p>
-                  <div className="h-4"></div>
-                  <p className="text-red-400">• HEALING: 15% HP PER KILL</p>
-                  <p className="text-yellow-400">• PARRY: +1 STYLE RANK</p>
-                  <p className="text-cyan-400">• CLASH: WIN +2 | LOSE -2 RANKS</p>
-                </div>
+            </div>
+          </div>
+          <button onClick={handleBackToMenu} className="mt-12 px-12 py-6 border-2 border-white/40 text-lg font-black active:bg-white active:text-black transition-all hover:bg-white/5 uppercase tracking-widest">
+            {t.menu}
+          </button>
+        </div>
+      )}
+
+      {/* 按键设置界面 */}
+      {gameState === GameState.CONTROLS && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-white backdrop-blur-xl p-6 overflow-hidden">
+          <div className="bg-zinc-900/60 p-10 border-t border-b border-cyan-500/20 w-full max-w-3xl shadow-[0_0_100px_rgba(34,211,238,0.1)]">
+            <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6 text-center">- {t.controls} -</p>
+            <div className="flex justify-center gap-3 mb-6">
+              {[t.player1, t.player2].map((label, i) => (
+                <button key={label} onClick={() => handleSelectBindingPlayer(i)} className={`px-8 py-2 border-2 text-sm font-bold tracking-widest ${bindingPlayer === i ? 'border-cyan-400 text-cyan-400' : 'border-white/20 text-white/60 active:bg-white/10'}`}>{label}</button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              {INPUT_ACTIONS.map(action => (
+                <button key={action} onClick={() => handleRebind(action)} className={`flex justify-between px-6 py-3 border-2 text-sm font-bold tracking-widest transition-colors ${rebinding === action ? 'border-cyan-400 text-cyan-400 animate-pulse' : 'border-white/20 text-white/60 hover:bg-white/5 active:bg-white/10'}`}>
+                  <span>{t.actions[action]}</span>
+                  <span>{rebinding === action ? t.pressKey : (bindingPlayer === 0 ? bindings : partnerBindings)[action].map(formatKeyCode).join(' / ') || '—'}</span>
+                </button>
+              ))}
+            </div>
+            <p className="text-white/60 text-[10px] font-bold tracking-widest mt-6 text-center">{t.gamepadHint}</p>
+            <p className="text-white/60 text-[10px] font-bold tracking-widest mt-2 text-center">{t.coopPadHint}</p>
+          </div>
+          <div className="flex gap-4 mt-12">
+            <button onClick={handleResetBindings} className="px-10 py-6 border-2 border-white/20 text-sm font-bold text-white/60 active:bg-white/10 transition-all uppercase tracking-widest">{t.resetBindings}</button>
+            <button onClick={handleCloseSettings} className="px-12 py-6 border-2 border-white/40 text-lg font-black active:bg-white active:text-black transition-all hover:bg-white/5 uppercase tracking-widest">{t.menu}</button>
+          </div>
+        </div>
+      )}
+
+      {/* 音量设置界面 */}
+      {gameState === GameState.AUDIO && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-white backdrop-blur-xl p-6 overflow-hidden">
+          <div className="bg-zinc-900/60 p-10 border-t border-b border-cyan-500/20 w-full max-w-3xl shadow-[0_0_100px_rgba(34,211,238,0.1)]">
+            <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6 text-center">- {t.audio} -</p>
+            <div className="grid grid-cols-1 gap-3">
+              {(['master', ...BUSES] as const).map(channel => {
+                const level = channel === 'master' ? mixer.master : mixer.buses[channel];
+                return (
+                  <div key={channel} className="flex items-center gap-6 text-sm font-bold tracking-widest">
+                    <span className="w-32 text-white/60">{t.channels[channel]}</span>
+                    <input type="range" min={0} max={100} value={Math.round(level.volume * 100)} disabled={level.muted}
+                      onChange={e => handleMixerChange(channel, { volume: Number(e.target.value) / 100 })} onPointerUp={previewMixer}
+                      className="flex-1 accent-cyan-400" />
+                    <span className="w-16 text-right">{level.muted ? '—' : Math.round(level.volume * 100)}</span>
+                    <button onClick={() => handleMixerChange(channel, { muted: !level.muted })} className={`w-32 px-6 py-3 border-2 text-[10px] font-bold tracking-widest uppercase transition-colors ${level.muted ? 'border-red-500 text-red-500' : 'border-white/20 text-white/60 active:bg-white/10'}`}>
+                      {level.muted ? t.muted : t.mute}
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+            {audio.loadReport && <p className="text-white/40 text-[10px] tracking-[0.3em] font-bold text-center mt-6">{interpolate(t.audioAssets, { loaded: audio.loadReport.loaded.length, synthesized: audio.loadReport.synthesized.length, missing: audio.loadReport.missing.length })}</p>}
+          </div>
+          <div className="flex gap-4 mt-12">
+            <button onClick={() => applyMixer(defaultMixer())} className="px-10 py-6 border-2 border-white/20 text-sm font-bold text-white/60 active:bg-white/10 transition-all uppercase tracking-widest">{t.resetAudio}</button>
+            <button onClick={handleCloseSettings} className="px-12 py-6 border-2 border-white/40 text-lg font-black active:bg-white active:text-black transition-all hover:bg-white/5 uppercase tracking-widest">{t.menu}</button>
+          </div>
+        </div>
+      )}
+
+      {/* 辅助功能界面 */}
+      {gameState === GameState.ACCESSIBILITY && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-white backdrop-blur-xl p-6 overflow-hidden">
+          <div className="bg-zinc-900/60 p-10 border-t border-b border-cyan-500/20 w-full max-w-3xl shadow-[0_0_100px_rgba(34,211,238,0.1)]">
+            <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6 text-center">- {t.accessibility} -</p>
+            <div className="grid grid-cols-1 gap-3 text-sm font-bold tracking-widest">
+              <div className="flex items-center gap-6">
+                <span className="w-44 text-white/60">{t.shake}</span>
+                <input type="range" min={0} max={100} value={Math.round(accessibility.shake * 100)} onChange={e => handleAccessibilityChange({ shake: Number(e.target.value) / 100 })} className="flex-1 accent-cyan-400" />
+                <span className="w-16 text-right">{Math.round(accessibility.shake * 100)}</span>
+              </div>
+              <div className="flex items-center gap-6">
+                <span className="w-44 text-white/60">{t.particles}</span>
+                <input type="range" min={25} max={100} value={Math.round(accessibility.particles * 100)} onChange={e => handleAccessibilityChange({ particles: Number(e.target.value) / 100 })} className="flex-1 accent-cyan-400" />
+                <span className="w-16 text-right">{Math.round(accessibility.particles * 100)}</span>
               </div>
+              <button onClick={() => handleAccessibilityChange({ reduceFlashes: !accessibility.reduceFlashes })} className="flex justify-between px-6 py-3 border-2 border-white/20 text-white/60 hover:bg-white/5 active:bg-white/10 transition-colors">
+                <span>{t.reduceFlashes}</span><span className={accessibility.reduceFlashes ? 'text-cyan-400' : ''}>{accessibility.reduceFlashes ? t.on : t.off}</span>
+              </button>
+              <button onClick={() => handleAccessibilityChange({ gore: cycle(GORE_STYLES, accessibility.gore) })} className="flex justify-between px-6 py-3 border-2 border-white/20 text-white/60 hover:bg-white/5 active:bg-white/10 transition-colors">
+                <span>{t.gore}</span><span>{t.goreStyles[accessibility.gore]}</span>
+              </button>
+              <button onClick={() => handleAccessibilityChange({ colorblind: cycle(COLORBLIND_MODES, accessibility.colorblind) })} className="flex justify-between px-6 py-3 border-2 border-white/20 text-white/60 hover:bg-white/5 active:bg-white/10 transition-colors">
+                <span>{t.colorblind}</span><span>{t.colorblindModes[accessibility.colorblind]}</span>
+              </button>
+              {/* 渲染方式：偏好与实际使用的后端不同时一并显示 */}
+              <button onClick={handleRendererChange} className="flex justify-between px-6 py-3 border-2 border-white/20 text-white/60 hover:bg-white/5 active:bg-white/10 transition-colors">
+                <span>{t.renderer}</span><span>{t.renderers[rendererPreference]}{rendererPreference !== rendererKind && ` · ${t.renderers[rendererKind]}`}</span>
+              </button>
+            </div>
+          </div>
+          <div className="flex gap-4 mt-12">
+            <button onClick={() => handleAccessibilityChange(defaultAccessibility())} className="px-10 py-6 border-2 border-white/20 text-sm font-bold text-white/60 active:bg-white/10 transition-all uppercase tracking-widest">{t.resetAccessibility}</button>
+            <button onClick={handleCloseSettings} className="px-12 py-6 border-2 border-white/40 text-lg font-black active:bg-white active:text-black transition-all hover:bg-white/5 uppercase tracking-widest">{t.menu}</button>
+          </div>
+        </div>
+      )}
+
+      {/* 战绩界面 */}
+      {gameState === GameState.RECORDS && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black text-white backdrop-blur-xl p-6 overflow-hidden">
+          <div className="bg-zinc-900/60 p-10 border-t border-b border-cyan-500/20 w-full max-w-3xl shadow-[0_0_100px_rgba(34,211,238,0.1)]">
+            <p className="text-cyan-400 font-bold text-2xl tracking-[0.5em] mb-6 text-center">- {t.records} -</p>
+            {highScores.length === 0 ? (
+              <p className="text-white/60 text-sm font-bold tracking-widest text-center">{t.noRecords}</p>
+            ) : (
+              <table className="w-full text-sm font-bold tracking-widest text-center">
+                <thead className="text-white/60 text-[10px]">
+                  <tr><th>#</th><th>{t.score}</th><th>{t.kills}</th><th>{t.peakRank}</th><th>{t.time}</th><th>{t.date}</th></tr>
+                </thead>
+                <tbody>
+                  {highScores.map((h, i) => (
+                    <tr key={h.date + i} className={i === 0 ? 'text-yellow-400' : ''}>
+                      <td>{i + 1}</td>
+                      <td>{h.score}</td>
+                      <td>{h.kills}</td>
+                      <td>{h.peakRank}</td>
+                      <td>{formatDuration(h.durationMs)} <span className="text-white/60 text-[10px]">{h.mode === 'stage' ? t.modeStage : t.modeEndless}{h.players && h.players > 1 ? ` ${t.coopTag}` : ''}</span></td>
+                      <td>{new Date(h.date).toLocaleDateString(lang)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             )}
           </div>
           <button onClick={handleBackToMenu} className="mt-12 px-12 py-6 border-2 border-white/40 text-lg font-black active:bg-white active:text-black transition-all hover:bg-white/5 uppercase tracking-widest">
@@ -243,13 +971,43 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {/* 关卡胜利界面 */}
+      {gameState === GameState.VICTORY && (
+        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/95 text-white backdrop-blur-xl p-6">
+          <h1 className="text-7xl font-black italic tracking-tighter uppercase text-cyan-400 mb-2 animate-pulse">{t.victory}</h1>
+          <p className="text-lg mb-12 text-cyan-600/60 uppercase tracking-[0.4em] font-light">{t.victorySub}</p>
+          {runStatsPanel}
+          {netNotice}
+          {recordRank !== null && recordRank >= 0 && (
+            <p className="text-sm mb-6 font-bold tracking-[0.3em] text-yellow-400 animate-pulse">{recordRank === 0 ? t.newRecord : interpolate(t.rankedAt, { rank: recordRank + 1 })}</p>
+          )}
+          {replay && replayCheck !== null && (
+            <p className={`text-sm mb-6 font-bold tracking-[0.3em] ${replayCheck ? 'text-cyan-400' : 'text-red-500'}`}>{replayCheck ? t.replayVerified : t.replayDesync}</p>
+          )}
+          <div className="flex flex-col gap-4 w-full max-w-xs">
+            {canRestart && <button onClick={handleRestart} className="px-10 py-6 border-4 border-cyan-400 text-2xl font-black text-cyan-400 active:bg-cyan-400 active:text-black transition-all shadow-[0_0_50px_rgba(34,211,238,0.3)]">{t.playAgain}</button>}
+            {!replay && lastRun && <button onClick={handleSaveReplay} className="px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.saveReplay}</button>}
+            <button onClick={handleBackToMenu} className="px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.menu}</button>
+          </div>
+        </div>
+      )}
+
       {/* 游戏结束界面 */}
       {gameState === GameState.GAME_OVER && (
         <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-red-950/95 text-white backdrop-blur-xl p-6">
-          <h1 className="text-7xl font-black italic tracking-tighter uppercase text-red-600 mb-2 animate-pulse">{t.died}</h1>
-          <p className="text-lg mb-12 text-red-400/80 uppercase tracking-[0.4em] font-light">{t.honor}</p>
+          <h1 className="text-7xl font-black italic tracking-tighter uppercase text-red-600 mb-2 animate-pulse">{versusResult ?? t.died}</h1>
+          <p className="text-lg mb-12 text-red-400/80 uppercase tracking-[0.4em] font-light">{versusResult ? t.versus : t.honor}</p>
+          {runStatsPanel}
+          {netNotice}
+          {recordRank !== null && recordRank >= 0 && (
+            <p className="text-sm mb-6 font-bold tracking-[0.3em] text-yellow-400 animate-pulse">{recordRank === 0 ? t.newRecord : interpolate(t.rankedAt, { rank: recordRank + 1 })}</p>
+          )}
+          {replay && replayCheck !== null && (
+            <p className={`text-sm mb-6 font-bold tracking-[0.3em] ${replayCheck ? 'text-cyan-400' : 'text-red-500'}`}>{replayCheck ? t.replayVerified : t.replayDesync}</p>
+          )}
           <div className="flex flex-col gap-4 w-full max-w-xs">
-            <button onClick={handleRestart} className="px-10 py-6 border-4 border-red-600 text-2xl font-black active:bg-red-600 active:text-white transition-all shadow-[0_0_50px_rgba(220,38,38,0.3)]">{t.retry}</button>
+            {canRestart && <button onClick={handleRestart} className="px-10 py-6 border-4 border-red-600 text-2xl font-black active:bg-red-600 active:text-white transition-all shadow-[0_0_50px_rgba(220,38,38,0.3)]">{t.retry}</button>}
+            {!replay && lastRun && <button onClick={handleSaveReplay} className="px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.saveReplay}</button>}
             <button onClick={handleBackToMenu} className="px-10 py-4 border-2 border-white/40 text-sm font-bold active:bg-white active:text-black transition-all">{t.menu}</button>
           </div>
         </div>
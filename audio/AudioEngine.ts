@@ -0,0 +1,327 @@
+import { SoundSink } from '../engine/GameWorld';
+import { Vector2 } from '../types';
+import { BusName, BUSES, MixerSettings, defaultMixer, effectiveGain, busFor, cueVolume, DUCK_TRIGGERS, DUCK_ATTACK_S, DUCK_RELEASE_S } from './mixer';
+import { synthesize } from './synth';
+import { Listener, spatialize } from './spatial';
+import { AdaptiveMusic, MusicIntensity, STEMS, stemAsset } from './music';
+
+/** Outcome of `init`: which sounds came from files, which were rendered procedurally, and which have neither. */
+export interface AssetReport {
+    loaded: string[];
+    synthesized: string[];
+    missing: string[];
+}
+
+export class AudioEngine implements SoundSink {
+    ctx: AudioContext | null = null;
+    assets: { [key: string]: AudioBuffer } = {};
+    activeLoops: { [key: string]: { source: AudioBufferSourceNode, gain: GainNode } } = {};
+    isInitialized = false;
+    /** Set by the pause menu; keeps the context suspended until `resume()`. */
+    paused = false;
+    /** Filled in once `init` finishes; the audio settings screen shows it. */
+    loadReport: AssetReport | null = null;
+
+    masterLimiter: DynamicsCompressorNode | null = null;
+    masterGain: GainNode | null = null;
+    noiseBuffer: AudioBuffer | null = null;
+
+    // Every source feeds one bus; the music bus goes through its own duck stage so ducking never touches the user's level.
+    buses: Partial<Record<BusName, GainNode>> = {};
+    musicDuck: GainNode | null = null;
+    mixer: MixerSettings = defaultMixer();
+    listener: Listener | null = null;
+    music: AdaptiveMusic | null = null;
+
+    lastPlayedTimes: { [key: string]: number } = {};
+    spamDetection: { [key: string]: { count: number, lastTime: number } } = {};
+
+    playHistory: { [key: string]: number[] } = {
+        'enemy_hit': [],
+        'enemy_death': [],
+        'whoosh': []
+    };
+
+    async init() {
+        if (this.isInitialized) return;
+        if (!this.ctx) this.ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
+        if (this.ctx.state === 'suspended' && !this.paused) await this.ctx.resume();
+
+        this.masterGain = this.ctx.createGain();
+        this.masterGain.gain.value = 1.0;
+        this.masterLimiter = this.ctx.createDynamicsCompressor();
+        this.masterLimiter.threshold.setValueAtTime(-1, this.ctx.currentTime);
+        this.masterLimiter.knee.setValueAtTime(0, this.ctx.currentTime);
+        this.masterLimiter.ratio.setValueAtTime(20, this.ctx.currentTime);
+        this.masterLimiter.attack.setValueAtTime(0, this.ctx.currentTime);
+        this.masterLimiter.release.setValueAtTime(0.1, this.ctx.currentTime);
+
+        this.masterGain.connect(this.masterLimiter);
+        this.masterLimiter.connect(this.ctx.destination);
+
+        this.musicDuck = this.ctx.createGain();
+        this.musicDuck.connect(this.masterGain);
+        BUSES.forEach(name => {
+            const bus = this.ctx!.createGain();
+            bus.connect(name === 'music' ? this.musicDuck! : this.masterGain!);
+            this.buses[name] = bus;
+        });
+        this.applyMixer();
+        this.music = new AdaptiveMusic(this.ctx, this.buses.music!, cueVolume('bgm'));
+
+        const bufferSize = this.ctx.sampleRate * 0.1;
+        this.noiseBuffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
+        const data = this.noiseBuffer.getChannelData(0);
+        for (let i = 0; i < bufferSize; i++) data[i] = Math.random() * 2 - 1;
+
+        const sfxFiles = [
+            'atk_1', 'atk_2', 'atk_3', 'launch', 'slam', 'slam_hit', 'field_release', 'dodge', 'dash_attack',
+            'focus_enter', 'focus_exit', 'focus_loop',
+            'clash_loop', 'clash_win', 'clash_lose',
+            'hit_enemy_1', 'hit_enemy_2', 'hit_enemy_3',
+            'die_enemy_1', 'die_enemy_2', 'die_enemy_3',
+            'die_player', 'reflect', 'explosion', 'boss_spawn', 'boss_death', 'stinger_clash'
+        ];
+        const musicFiles = ['bgm', ...STEMS.map(stemAsset)];
+
+        // 使用相对根路径确保在 Vercel 这种 CDN 环境下也能准确定位
+        const loadPromises = sfxFiles.map(name => this.loadAsset(name, `assets/audio/sfx/${name}.mp3`));
+        loadPromises.push(this.loadAsset('bgm', `assets/audio/bgm/battle_loop.mp3`));
+        STEMS.forEach(stem => loadPromises.push(this.loadAsset(stemAsset(stem), `assets/audio/bgm/${stemAsset(stem)}.mp3`)));
+
+        await Promise.all(loadPromises);
+        this.loadReport = this.fillMissing([...sfxFiles, ...musicFiles]);
+        this.isInitialized = true;
+    }
+
+    /** Applies bus levels now if the graph exists, otherwise when `init` builds it. */
+    setMixer(mixer: MixerSettings) {
+        this.mixer = mixer;
+        this.applyMixer();
+    }
+
+    private applyMixer() {
+        if (!this.ctx || !this.masterGain) return;
+        const now = this.ctx.currentTime;
+        this.masterGain.gain.setTargetAtTime(effectiveGain(this.mixer.master), now, 0.02);
+        BUSES.forEach(name => this.buses[name]?.gain.setTargetAtTime(effectiveGain(this.mixer.buses[name]), now, 0.02));
+    }
+
+    /** Called every rendered frame with the camera centre, so positioned sounds pan relative to the view. */
+    setListener(listener: Listener) {
+        this.listener = listener;
+    }
+
+    // Positioned sounds get a panner between their gain and the bus; unpositioned ones play centred.
+    private route(gain: GainNode, bus: BusName, at?: Vector2) {
+        const out = this.busNode(bus)!;
+        if (!at || !this.listener || !this.ctx) { gain.connect(out); return; }
+        const { pan, gain: level } = spatialize(at, this.listener);
+        gain.gain.value *= level;
+        const panner = this.ctx.createStereoPanner();
+        panner.pan.value = pan;
+        gain.connect(panner); panner.connect(out);
+    }
+
+    private busNode(bus: BusName) {
+        return this.buses[bus] || this.masterGain;
+    }
+
+    // Sidechain: the music bus follows whichever active loop asks for the deepest duck.
+    private updateDuck() {
+        if (!this.ctx || !this.musicDuck) return;
+        const level = Object.keys(this.activeLoops).reduce((min, name) => Math.min(min, DUCK_TRIGGERS[name] ?? 1), 1);
+        const param = this.musicDuck.gain;
+        const now = this.ctx.currentTime;
+        param.cancelScheduledValues(now);
+        param.setTargetAtTime(level, now, level < param.value ? DUCK_ATTACK_S : DUCK_RELEASE_S);
+    }
+
+    private canPlay(category: string, limit: number, window: number): boolean {
+        const now = Date.now();
+        const history = this.playHistory[category] || [];
+        const validHistory = history.filter(time => now - time < window * 1000);
+        this.playHistory[category] = validHistory;
+        if (validHistory.length >= limit) return false;
+        this.playHistory[category].push(now);
+        return true;
+    }
+
+    // Anything that failed to load is rendered from its synth recipe so the game never goes quiet.
+    private fillMissing(names: string[]): AssetReport {
+        const report: AssetReport = { loaded: [], synthesized: [], missing: [] };
+        names.forEach(name => {
+            if (this.assets[name]) { report.loaded.push(name); return; }
+            const samples = synthesize(name, this.ctx!.sampleRate);
+            if (!samples) { report.missing.push(name); return; }
+            const buffer = this.ctx!.createBuffer(1, samples.length, this.ctx!.sampleRate);
+            buffer.getChannelData(0).set(samples);
+            this.assets[name] = buffer;
+            report.synthesized.push(name);
+        });
+        return report;
+    }
+
+    async loadAsset(name: string, url: string) {
+        try {
+            const response = await fetch(url);
+            if (!response.ok) throw new Error(`HTTP ${response.status}`);
+            const arrayBuffer = await response.arrayBuffer();
+            const audioBuffer = await this.ctx!.decodeAudioData(arrayBuffer);
+            this.assets[name] = audioBuffer;
+        } catch (e) {
+            // Missing files are expected (the synthesized set covers them) and counted in `loadReport`.
+        }
+    }
+
+    playAsset(name: string, scale = 1, pitch = 1, at?: Vector2, bus: BusName = busFor(name)) {
+        if (!this.ctx || !this.assets[name] || !this.masterGain) return null;
+        const now = Date.now();
+        if (!this.spamDetection[name]) this.spamDetection[name] = { count: 0, lastTime: 0 };
+        if (now - this.spamDetection[name].lastTime < 160) {
+            this.spamDetection[name].count++;
+            if (this.spamDetection[name].count > 1) return null;
+        } else {
+            this.spamDetection[name].count = 0;
+            this.spamDetection[name].lastTime = now;
+        }
+        const source = this.ctx.createBufferSource();
+        source.buffer = this.assets[name];
+        source.playbackRate.value = pitch;
+        const gain = this.ctx.createGain();
+        gain.gain.value = cueVolume(name) * scale;
+        source.connect(gain);
+        this.route(gain, bus, at);
+        source.start();
+        return source;
+    }
+
+    playEnemyHit(isFieldActive: boolean, at?: Vector2) {
+        if (isFieldActive) return;
+        if (!this.canPlay('enemy_hit', 4, 0.3)) return;
+        const pick = ['hit_enemy_1', 'hit_enemy_2', 'hit_enemy_3'][Math.floor(Math.random() * 3)];
+        this.assets[pick] ? this.playAsset(pick, 1, 1, at) : this.playProceduralHit('hit_flesh', at);
+    }
+
+    playEnemyDeath(at?: Vector2) {
+        if (!this.canPlay('enemy_death', 3, 0.5)) return;
+        const pick = ['die_enemy_1', 'die_enemy_2', 'die_enemy_3'][Math.floor(Math.random() * 3)];
+        this.assets[pick] ? this.playAsset(pick, 1, 1, at) : this.playProceduralHit('explosion', at);
+    }
+
+    playProceduralWhoosh(pitch = 1) {
+        if (!this.ctx || !this.noiseBuffer || !this.masterGain) return;
+        const nowMs = Date.now();
+        if (this.lastPlayedTimes['whoosh_proc'] && nowMs - this.lastPlayedTimes['whoosh_proc'] < 160) return;
+        this.lastPlayedTimes['whoosh_proc'] = nowMs;
+        const now = this.ctx.currentTime;
+        const gain = this.ctx.createGain();
+        const noise = this.ctx.createBufferSource();
+        noise.buffer = this.noiseBuffer;
+        const filter = this.ctx.createBiquadFilter();
+        filter.type = 'lowpass';
+        filter.frequency.setValueAtTime(1000 * pitch, now);
+        filter.frequency.exponentialRampToValueAtTime(10, now + 0.1);
+        noise.connect(filter); filter.connect(gain); gain.connect(this.busNode('sfx')!);
+        gain.gain.setValueAtTime(0.012, now); gain.gain.linearRampToValueAtTime(0, now + 0.1);
+        noise.start();
+    }
+
+    playProceduralHit(type: string, at?: Vector2) {
+        if (!this.ctx || !this.masterGain) return;
+        const now = this.ctx.currentTime;
+        const gain = this.ctx.createGain(); this.route(gain, 'sfx', at);
+        const osc = this.ctx.createOscillator();
+        if (type === 'hit_flesh') {
+            osc.type = 'sawtooth'; osc.frequency.setValueAtTime(80, now); osc.frequency.linearRampToValueAtTime(10, now + 0.15);
+            gain.gain.setValueAtTime(0.1, now); gain.gain.linearRampToValueAtTime(0, now + 0.15);
+        } else {
+            osc.type = 'sawtooth'; osc.frequency.setValueAtTime(60, now); osc.frequency.exponentialRampToValueAtTime(1, now + 0.5);
+            gain.gain.setValueAtTime(0.25, now); gain.gain.linearRampToValueAtTime(0, now + 0.5);
+        }
+        osc.start(); osc.stop(now + 0.5);
+    }
+
+    playPlayerAttack(at?: Vector2) {
+        const pick = ['atk_1', 'atk_2', 'atk_3'][Math.floor(Math.random() * 3)];
+        this.assets[pick] ? this.playAsset(pick, 1, 1, at) : this.playProceduralWhoosh(1.2);
+    }
+
+    startLoop(name: string, scale = 1) {
+        if (!this.ctx || !this.assets[name] || this.activeLoops[name] || !this.masterGain) return;
+        const source = this.ctx.createBufferSource();
+        source.buffer = this.assets[name];
+        source.loop = true;
+        const gain = this.ctx.createGain();
+        gain.gain.value = cueVolume(name) * scale;
+        source.connect(gain);
+        gain.connect(this.busNode(busFor(name))!);
+        source.start();
+        this.activeLoops[name] = { source, gain };
+        if (name in DUCK_TRIGGERS) this.updateDuck();
+    }
+
+    updateLoopVolume(name: string, volume: number) {
+        if (this.activeLoops[name]) {
+            const now = this.ctx?.currentTime || 0;
+            this.activeLoops[name].gain.gain.exponentialRampToValueAtTime(Math.max(0.001, volume), now + 0.2);
+        }
+    }
+
+    stopLoop(name: string) {
+        if (this.activeLoops[name]) {
+            try { this.activeLoops[name].source.stop(); this.activeLoops[name].source.disconnect(); this.activeLoops[name].gain.disconnect(); } catch (e) { }
+            delete this.activeLoops[name];
+            if (name in DUCK_TRIGGERS) this.updateDuck();
+        }
+    }
+
+    // A recorded battle loop wins over synthesized stems; recorded stems win over both.
+    private useStems() {
+        const loaded = this.loadReport?.loaded || [];
+        return STEMS.every(stem => this.assets[stemAsset(stem)]) && (!loaded.includes('bgm') || STEMS.some(stem => loaded.includes(stemAsset(stem))));
+    }
+
+    /**
+     * Freezes everything in place (music, loops and one-shots) by suspending the context, so the pause menu
+     * resumes the score mid-bar instead of restarting it. Nothing plays until `resume()`.
+     */
+    pause() {
+        this.paused = true;
+        this.ctx?.suspend();
+    }
+
+    resume() {
+        if (!this.paused) return;
+        this.paused = false;
+        this.ctx?.resume();
+    }
+
+    playBGM() {
+        if (this.ctx && this.ctx.state === 'suspended' && !this.paused) this.ctx.resume();
+        if (this.music && this.useStems()) {
+            const buffers = Object.fromEntries(STEMS.map(stem => [stem, this.assets[stemAsset(stem)]]));
+            this.music.start(buffers as Record<typeof STEMS[number], AudioBuffer>);
+        } else {
+            this.startLoop('bgm');
+        }
+    }
+    stopBGM() { this.music?.stop(); this.stopLoop('bgm'); }
+
+    setMusicIntensity(intensity: MusicIntensity) {
+        this.music?.setIntensity(intensity);
+    }
+
+    /** One-shot on the music bus, placed on the next beat when the adaptive score is running. */
+    playStinger(name: string, scale = 1) {
+        if (!this.ctx || !this.assets[name]) return;
+        const source = this.ctx.createBufferSource();
+        source.buffer = this.assets[name];
+        const gain = this.ctx.createGain();
+        gain.gain.value = cueVolume(name) * scale;
+        source.connect(gain); gain.connect(this.busNode('music')!);
+        source.start(this.music?.playing ? this.music.nextBeat() : 0);
+    }
+}
+
+export const audio = new AudioEngine();
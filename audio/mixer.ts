@@ -0,0 +1,104 @@
+import { isRecord } from '../storage/storage';
+
+export type BusName = 'music' | 'sfx' | 'ui' | 'ambience';
+
+export const BUSES: BusName[] = ['music', 'sfx', 'ui', 'ambience'];
+
+export interface BusLevel {
+    /** Linear gain, 0..1. */
+    volume: number;
+    muted: boolean;
+}
+
+export interface MixerSettings {
+    master: BusLevel;
+    buses: Record<BusName, BusLevel>;
+}
+
+export const defaultMixer = (): MixerSettings => ({
+    master: { volume: 1, muted: false },
+    buses: {
+        music: { volume: 1, muted: false },
+        sfx: { volume: 1, muted: false },
+        ui: { volume: 1, muted: false },
+        ambience: { volume: 1, muted: false }
+    }
+});
+
+const clampLevel = (level: unknown, fallback: BusLevel): BusLevel => {
+    if (!isRecord(level)) return { ...fallback };
+    return {
+        volume: typeof level.volume === 'number' ? Math.max(0, Math.min(1, level.volume)) : fallback.volume,
+        muted: typeof level.muted === 'boolean' ? level.muted : fallback.muted
+    };
+};
+
+/** Fills in missing or malformed levels, e.g. from a save written before a bus existed. */
+export const normalizeMixer = (data: unknown): MixerSettings => {
+    const defaults = defaultMixer();
+    const stored = isRecord(data) ? data : {};
+    const storedBuses = isRecord(stored.buses) ? stored.buses : {};
+    const buses = { ...defaults.buses };
+    BUSES.forEach(bus => { buses[bus] = clampLevel(storedBuses[bus], defaults.buses[bus]); });
+    return { master: clampLevel(stored.master, defaults.master), buses };
+};
+
+export const effectiveGain = (level: BusLevel) => level.muted ? 0 : level.volume;
+
+// Sounds that don't belong on the SFX bus. Anything not listed here plays as SFX.
+const SOUND_BUS: { [name: string]: BusName } = {
+    bgm: 'music',
+    stinger_clash: 'music',
+    focus_loop: 'ambience',
+    clash_loop: 'ambience'
+};
+
+export const busFor = (name: string): BusName => SOUND_BUS[name] || 'sfx';
+
+/**
+ * Playback level per asset. Every cue plays at this level; a caller reusing a sound quieter or louder passes a scale
+ * on top of it rather than a level of its own, so rebalancing a sound is one edit here.
+ */
+export const CUE_VOLUMES: { [name: string]: number } = {
+    // --- MUSIC & LOOPS ---
+    bgm: 0.15,
+    clash_loop: 0.4,
+    focus_loop: 0.3,
+    // Lands under the clash duck, so it is mixed hot.
+    stinger_clash: 0.9,
+    // --- PLAYER ---
+    atk_1: 0.2, atk_2: 0.2, atk_3: 0.2,
+    dash_attack: 0.7,
+    launch: 0.5,
+    slam: 0.7,
+    dodge: 0.4,
+    focus_enter: 0.4,
+    focus_exit: 0.4,
+    field_release: 0.5,
+    reflect: 0.6,
+    die_player: 0.6,
+    // --- ENEMIES & BOSS ---
+    hit_enemy_1: 0.22, hit_enemy_2: 0.22, hit_enemy_3: 0.22,
+    die_enemy_1: 0.35, die_enemy_2: 0.35, die_enemy_3: 0.35,
+    boss_spawn: 0.5,
+    boss_death: 0.6,
+    slam_hit: 0.9,
+    explosion: 0.4,
+    // --- CLASH ---
+    clash_win: 0.6,
+    clash_lose: 0.6
+};
+
+export const cueVolume = (name: string) => CUE_VOLUMES[name] ?? 0.3;
+
+/**
+ * While one of these loops plays, the music bus is pulled down to the given fraction.
+ * The deepest active duck wins; music recovers once the last trigger loop stops.
+ */
+export const DUCK_TRIGGERS: { [loop: string]: number } = {
+    clash_loop: 0.33,
+    focus_loop: 0.5
+};
+
+export const DUCK_ATTACK_S = 0.05;
+export const DUCK_RELEASE_S = 0.35;
@@ -0,0 +1,108 @@
+import { CHIPTUNE_BPM, ChiptunePart } from './synth';
+
+/** What the music reacts to; published by the game once per rendered frame. */
+export interface MusicIntensity {
+    /** Style rank index, 0 (D) to 8 (GOD). */
+    rank: number;
+    boss: boolean;
+    focus: boolean;
+}
+
+export const STEMS: ChiptunePart[] = ['bass', 'drums', 'arp', 'lead', 'boss'];
+
+export const stemAsset = (stem: ChiptunePart) => `stem_${stem}`;
+
+// Style rank at which each stem joins the mix. The boss layer is driven by the boss instead.
+const STEM_RANKS: { [stem: string]: number } = { bass: 0, drums: 1, arp: 3, lead: 5 };
+
+export const stemLevels = ({ rank, boss }: MusicIntensity): Record<ChiptunePart, number> => ({
+    bass: rank >= STEM_RANKS.bass ? 1 : 0,
+    drums: rank >= STEM_RANKS.drums ? 1 : 0,
+    arp: rank >= STEM_RANKS.arp ? 1 : 0,
+    lead: rank >= STEM_RANKS.lead ? 1 : 0,
+    boss: boss ? 1 : 0
+});
+
+const BEAT_S = 60 / CHIPTUNE_BPM;
+// Lowpass cutoff for the music while focus slows time, and when it doesn't.
+const FOCUS_CUTOFF_HZ = 650;
+const OPEN_CUTOFF_HZ = 20000;
+
+const sameIntensity = (a: MusicIntensity, b: MusicIntensity) => a.rank === b.rank && a.boss === b.boss && a.focus === b.focus;
+
+/**
+ * Plays the chiptune stems in lockstep and fades them in and out with the intensity. Every change lands
+ * on the next beat of the shared loop and ramps over one beat, so layers enter and leave in time.
+ */
+export class AdaptiveMusic {
+    private sources: AudioBufferSourceNode[] = [];
+    private gains: Partial<Record<ChiptunePart, GainNode>> = {};
+    private startTime = 0;
+    private intensity: MusicIntensity = { rank: 0, boss: false, focus: false };
+    readonly filter: BiquadFilterNode;
+
+    /** `volume` is the level of the full mix, matching what the single `bgm` loop would play at. */
+    constructor(private readonly ctx: AudioContext, output: AudioNode, volume: number) {
+        this.filter = ctx.createBiquadFilter();
+        this.filter.type = 'lowpass';
+        this.filter.frequency.value = OPEN_CUTOFF_HZ;
+        const level = ctx.createGain();
+        level.gain.value = volume;
+        this.filter.connect(level); level.connect(output);
+    }
+
+    get playing() { return this.sources.length > 0; }
+
+    /** Context time of the next beat of the running loop. */
+    nextBeat() {
+        const elapsed = Math.max(0, this.ctx.currentTime - this.startTime);
+        return this.startTime + Math.ceil(elapsed / BEAT_S + 1e-6) * BEAT_S;
+    }
+
+    start(buffers: Record<ChiptunePart, AudioBuffer>) {
+        if (this.playing) return;
+        this.startTime = this.ctx.currentTime + 0.05;
+        const levels = stemLevels(this.intensity);
+        STEMS.forEach(stem => {
+            const source = this.ctx.createBufferSource();
+            source.buffer = buffers[stem];
+            source.loop = true;
+            const gain = this.ctx.createGain();
+            gain.gain.value = levels[stem];
+            source.connect(gain); gain.connect(this.filter);
+            source.start(this.startTime);
+            this.sources.push(source);
+            this.gains[stem] = gain;
+        });
+    }
+
+    stop() {
+        this.sources.forEach(source => { try { source.stop(); source.disconnect(); } catch (e) { } });
+        STEMS.forEach(stem => this.gains[stem]?.disconnect());
+        this.sources = [];
+        this.gains = {};
+    }
+
+    setIntensity(next: MusicIntensity) {
+        if (sameIntensity(next, this.intensity)) return;
+        const focusChanged = next.focus !== this.intensity.focus;
+        this.intensity = next;
+        if (!this.playing) return;
+        const at = this.nextBeat();
+        const levels = stemLevels(next);
+        STEMS.forEach(stem => {
+            const param = this.gains[stem]!.gain;
+            param.cancelScheduledValues(at);
+            param.setValueAtTime(param.value, at);
+            param.linearRampToValueAtTime(levels[stem], at + BEAT_S);
+        });
+        if (focusChanged) {
+            // The sweep follows focus straight away; only layer changes wait for the beat.
+            const now = this.ctx.currentTime;
+            const cutoff = this.filter.frequency;
+            cutoff.cancelScheduledValues(now);
+            cutoff.setValueAtTime(cutoff.value, now);
+            cutoff.exponentialRampToValueAtTime(next.focus ? FOCUS_CUTOFF_HZ : OPEN_CUTOFF_HZ, now + (next.focus ? 0.4 : 0.8));
+        }
+    }
+}
@@ -0,0 +1,23 @@
+import { Vector2 } from '../types';
+
+/** Where the ears are: the centre of the view in world coordinates, and half the visible world width. */
+export interface Listener {
+    x: number;
+    halfWidth: number;
+}
+
+// Hard-panned sounds are tiring on headphones; keep a little of each side.
+const MAX_PAN = 0.85;
+// Off-screen sources fade but never drop below this, so a threat out of view can still be heard.
+const MIN_GAIN = 0.2;
+
+/**
+ * Pan follows the source across the screen; past the edge the pan is pinned and the level falls off
+ * with every further screen-width of distance.
+ */
+export const spatialize = (at: Vector2, listener: Listener) => {
+    const dx = at.x - listener.x;
+    const pan = Math.max(-1, Math.min(1, dx / listener.halfWidth)) * MAX_PAN;
+    const beyond = Math.max(0, Math.abs(dx) - listener.halfWidth) / listener.halfWidth;
+    return { pan, gain: Math.max(MIN_GAIN, 1 / (1 + beyond)) };
+};
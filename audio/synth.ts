@@ -0,0 +1,269 @@
+// Procedural stand-ins for every sound the engine can ask for. Each recipe renders mono samples at the
+// context's sample rate, so a missing file becomes an ordinary AudioBuffer and still goes through buses,
+// pitch and ducking like a recorded one.
+
+type Wave = 'square' | 'pulse' | 'saw' | 'triangle' | 'sine';
+
+interface ToneOptions {
+    at: number;
+    dur: number;
+    freq: number;
+    /** Frequency reached at the end of the note; exponential glide. Defaults to `freq`. */
+    to?: number;
+    wave?: Wave;
+    gain?: number;
+    attack?: number;
+    release?: number;
+}
+
+interface NoiseOptions {
+    at: number;
+    dur: number;
+    gain?: number;
+    /** One-pole lowpass cutoff in Hz at the start and end of the burst. */
+    cutoff?: number;
+    cutoffTo?: number;
+    /** Subtracts the lowpassed signal, leaving the hiss. */
+    highpass?: boolean;
+    attack?: number;
+}
+
+const waveAt = (wave: Wave, phase: number) => {
+    const p = phase - Math.floor(phase);
+    switch (wave) {
+        case 'square': return p < 0.5 ? 1 : -1;
+        case 'pulse': return p < 0.25 ? 1 : -1;
+        case 'saw': return 2 * p - 1;
+        case 'triangle': return 1 - 4 * Math.abs(p - 0.5);
+        case 'sine': return Math.sin(2 * Math.PI * p);
+    }
+};
+
+// Linear attack, then a linear fade over the last `release` seconds. Keeps note edges click-free.
+const envelope = (t: number, dur: number, attack: number, release: number) => {
+    if (t < attack) return t / attack;
+    const left = dur - t;
+    return left < release ? Math.max(0, left / release) : 1;
+};
+
+class Sketch {
+    readonly data: Float32Array;
+    private seed = 0x2545f491;
+
+    constructor(readonly sampleRate: number, readonly duration: number) {
+        this.data = new Float32Array(Math.max(1, Math.round(sampleRate * duration)));
+    }
+
+    private random() {
+        // xorshift32; fixed seed so fallbacks sound the same on every load.
+        this.seed ^= this.seed << 13; this.seed ^= this.seed >>> 17; this.seed ^= this.seed << 5;
+        return ((this.seed >>> 0) / 0xffffffff) * 2 - 1;
+    }
+
+    tone({ at, dur, freq, to = freq, wave = 'square', gain = 0.3, attack = 0.005, release = dur * 0.6 }: ToneOptions) {
+        const sr = this.sampleRate;
+        const start = Math.round(at * sr);
+        const length = Math.min(Math.round(dur * sr), this.data.length - start);
+        const ratio = to / freq;
+        let phase = 0;
+        for (let i = 0; i < length; i++) {
+            const t = i / sr;
+            phase += (freq * Math.pow(ratio, t / dur)) / sr;
+            this.data[start + i] += waveAt(wave, phase) * envelope(t, dur, attack, release) * gain;
+        }
+        return this;
+    }
+
+    noise({ at, dur, gain = 0.3, cutoff = 8000, cutoffTo = cutoff, highpass = false, attack = 0.002 }: NoiseOptions) {
+        const sr = this.sampleRate;
+        const start = Math.round(at * sr);
+        const length = Math.min(Math.round(dur * sr), this.data.length - start);
+        let low = 0;
+        for (let i = 0; i < length; i++) {
+            const t = i / sr;
+            const fc = cutoff * Math.pow(cutoffTo / cutoff, t / dur);
+            const k = 1 - Math.exp(-2 * Math.PI * fc / sr);
+            const white = this.random();
+            low += (white - low) * k;
+            this.data[start + i] += (highpass ? white - low : low) * envelope(t, dur, attack, dur * 0.9) * gain;
+        }
+        return this;
+    }
+
+    /** Scales the render so its loudest sample sits at `peak`. */
+    normalize(peak = 0.9) {
+        let max = 0;
+        for (let i = 0; i < this.data.length; i++) max = Math.max(max, Math.abs(this.data[i]));
+        if (max > 0) for (let i = 0; i < this.data.length; i++) this.data[i] *= peak / max;
+        return this.data;
+    }
+}
+
+const swing = (sr: number, pitch: number) => new Sketch(sr, 0.16)
+    .noise({ at: 0, dur: 0.16, cutoff: 5000 * pitch, cutoffTo: 300, gain: 0.8, attack: 0.02 })
+    .normalize(0.7);
+
+const enemyHit = (sr: number, pitch: number) => new Sketch(sr, 0.18)
+    .tone({ at: 0, dur: 0.16, freq: 90 * pitch, to: 30, wave: 'saw', gain: 0.5 })
+    .noise({ at: 0, dur: 0.08, cutoff: 3000, cutoffTo: 600, gain: 0.6 })
+    .normalize(0.8);
+
+const enemyDeath = (sr: number, pitch: number) => new Sketch(sr, 0.45)
+    .noise({ at: 0, dur: 0.4, cutoff: 2500 * pitch, cutoffTo: 120, gain: 0.7 })
+    .tone({ at: 0, dur: 0.35, freq: 180 * pitch, to: 40, wave: 'square', gain: 0.25 })
+    .normalize();
+
+const explosion = (sr: number, dur: number) => new Sketch(sr, dur)
+    .noise({ at: 0, dur, cutoff: 2200, cutoffTo: 60, gain: 1 })
+    .tone({ at: 0, dur: dur * 0.8, freq: 70, to: 18, wave: 'sine', gain: 0.8 })
+    .normalize();
+
+// --- CHIPTUNE BGM ---
+// Eight bars of A minor at 140 BPM (Am F C G, twice, with the lead answered the second time).
+// Every note ends inside the bar, so the loop point is seamless. The parts render separately as
+// stems for the adaptive music, or summed into the plain `bgm` loop.
+export const CHIPTUNE_BPM = 140;
+export const CHIPTUNE_BARS = 8;
+export type ChiptunePart = 'drums' | 'bass' | 'arp' | 'lead' | 'boss';
+
+const NOTE = (midi: number) => 440 * Math.pow(2, (midi - 69) / 12);
+const PROGRESSION = [[57, 60, 64], [53, 57, 60], [48, 52, 55], [55, 59, 62]];
+const LEAD = [
+    [76, 74, 72, 74, 76, 76, 76, -1], [72, 72, 74, 72, 69, -1, 69, 72], [76, 79, 76, 74, 72, -1, 74, 76], [74, 74, 71, 74, 79, -1, -1, -1],
+    [76, 74, 72, 74, 76, 76, 76, -1], [77, 76, 74, 72, 69, -1, 72, 74], [76, 72, 69, 72, 76, 79, 76, 74], [71, 74, 71, 67, 69, -1, -1, -1]
+];
+// Stems share one fixed scale instead of being normalized one by one, so they keep their balance when layered.
+const STEM_SCALE = 0.55;
+
+const chiptune = (sr: number, parts: ChiptunePart[]) => {
+    const beat = 60 / CHIPTUNE_BPM;
+    const song = new Sketch(sr, CHIPTUNE_BARS * 4 * beat);
+    const has = (part: ChiptunePart) => parts.includes(part);
+    for (let bar = 0; bar < CHIPTUNE_BARS; bar++) {
+        const chord = PROGRESSION[bar % PROGRESSION.length];
+        const barStart = bar * 4 * beat;
+        for (let step = 0; step < 8; step++) {
+            const at = barStart + step * beat / 2;
+            // Octave-hopping bass on eighths.
+            if (has('bass')) song.tone({ at, dur: beat / 2 * 0.9, freq: NOTE(chord[0] - 12 + (step % 2 ? 12 : 0)), wave: 'triangle', gain: 0.35, release: 0.03 });
+            const lead = LEAD[bar][step];
+            if (has('lead') && lead > 0) song.tone({ at, dur: beat / 2 * 0.85, freq: NOTE(lead), wave: 'pulse', gain: 0.12, release: 0.05 });
+            // Hats on the off-beats, kick on the beat.
+            if (has('drums')) {
+                if (step % 2) song.noise({ at, dur: 0.05, highpass: true, cutoff: 6000, gain: 0.25 });
+                else song.tone({ at, dur: 0.12, freq: 150, to: 40, wave: 'sine', gain: 0.6, release: 0.08 });
+            }
+        }
+        for (let step = 0; step < 16; step++) {
+            const at = barStart + step * beat / 4;
+            // Arpeggiated chord on sixteenths underneath the lead.
+            if (has('arp')) song.tone({ at, dur: beat / 4 * 0.8, freq: NOTE(chord[step % 3] + 12), wave: 'square', gain: 0.05, release: 0.02 });
+            // Boss layer: a driving low saw ostinato on the chord root, accented on the beat, with toms on 2 and 4.
+            if (has('boss')) {
+                song.tone({ at, dur: beat / 4 * 0.7, freq: NOTE(chord[0] - 24), wave: 'saw', gain: step % 4 ? 0.18 : 0.3, release: 0.02 });
+                if (step === 4 || step === 12) song.tone({ at, dur: 0.2, freq: 220, to: 90, wave: 'triangle', gain: 0.4, release: 0.15 });
+            }
+        }
+        if (has('drums') && bar % 2) song.noise({ at: barStart + 3 * beat, dur: 0.15, cutoff: 4000, cutoffTo: 1500, gain: 0.35 });
+    }
+    return song;
+};
+
+const stem = (part: ChiptunePart) => (sr: number) => {
+    const data = chiptune(sr, [part]).data;
+    for (let i = 0; i < data.length; i++) data[i] *= STEM_SCALE;
+    return data;
+};
+
+const RECIPES: { [name: string]: (sampleRate: number) => Float32Array } = {
+    atk_1: sr => swing(sr, 1),
+    atk_2: sr => swing(sr, 1.2),
+    atk_3: sr => swing(sr, 0.85),
+    launch: sr => new Sketch(sr, 0.3)
+        .tone({ at: 0, dur: 0.25, freq: 180, to: 900, wave: 'square', gain: 0.3 })
+        .noise({ at: 0, dur: 0.2, cutoff: 800, cutoffTo: 6000, gain: 0.5, attack: 0.03 }).normalize(),
+    slam: sr => new Sketch(sr, 0.25)
+        .noise({ at: 0, dur: 0.25, cutoff: 6000, cutoffTo: 400, gain: 0.8, attack: 0.05 }).normalize(0.7),
+    slam_hit: sr => new Sketch(sr, 0.5)
+        .tone({ at: 0, dur: 0.45, freq: 130, to: 28, wave: 'sine', gain: 0.9 })
+        .noise({ at: 0, dur: 0.15, cutoff: 3000, cutoffTo: 200, gain: 0.6 }).normalize(),
+    field_release: sr => new Sketch(sr, 0.4)
+        .tone({ at: 0, dur: 0.35, freq: 300, to: 1200, wave: 'saw', gain: 0.2 })
+        .tone({ at: 0, dur: 0.35, freq: 450, to: 1800, wave: 'saw', gain: 0.15 })
+        .noise({ at: 0, dur: 0.35, cutoff: 1500, cutoffTo: 8000, gain: 0.3, attack: 0.1 }).normalize(0.8),
+    dodge: sr => new Sketch(sr, 0.12)
+        .noise({ at: 0, dur: 0.12, highpass: true, cutoff: 2000, gain: 0.8, attack: 0.01 }).normalize(0.6),
+    dash_attack: sr => new Sketch(sr, 0.3)
+        .noise({ at: 0, dur: 0.28, cutoff: 7000, cutoffTo: 500, gain: 0.7, attack: 0.01 })
+        .tone({ at: 0, dur: 0.25, freq: 500, to: 90, wave: 'square', gain: 0.2 }).normalize(),
+    focus_enter: sr => new Sketch(sr, 0.35)
+        .tone({ at: 0, dur: 0.3, freq: 400, to: 1300, wave: 'triangle', gain: 0.5, attack: 0.03 })
+        .tone({ at: 0.05, dur: 0.3, freq: 600, to: 1950, wave: 'sine', gain: 0.3 }).normalize(0.7),
+    focus_exit: sr => new Sketch(sr, 0.35)
+        .tone({ at: 0, dur: 0.3, freq: 1300, to: 400, wave: 'triangle', gain: 0.5 })
+        .tone({ at: 0.05, dur: 0.3, freq: 1950, to: 600, wave: 'sine', gain: 0.3 }).normalize(0.7),
+    // Loops use whole cycles over their length so the wrap is seamless.
+    focus_loop: sr => new Sketch(sr, 2)
+        .tone({ at: 0, dur: 2, freq: 55, wave: 'sine', gain: 0.6, attack: 0.0001, release: 0.0001 })
+        .tone({ at: 0, dur: 2, freq: 110.5, wave: 'triangle', gain: 0.2, attack: 0.0001, release: 0.0001 })
+        .tone({ at: 0, dur: 2, freq: 220, wave: 'sine', gain: 0.1, attack: 0.0001, release: 0.0001 }).normalize(0.6),
+    clash_loop: sr => {
+        const s = new Sketch(sr, 1);
+        for (let i = 0; i < 8; i++) {
+            s.tone({ at: i / 8, dur: 0.1, freq: i % 2 ? 932 : 880, wave: 'square', gain: 0.3, release: 0.08 });
+            s.noise({ at: i / 8, dur: 0.04, highpass: true, cutoff: 5000, gain: 0.4 });
+        }
+        return s.normalize(0.7);
+    },
+    clash_win: sr => {
+        const s = new Sketch(sr, 0.7);
+        [72, 76, 79, 84].forEach((n, i) => s.tone({ at: i * 0.08, dur: i === 3 ? 0.4 : 0.1, freq: NOTE(n), wave: 'square', gain: 0.3 }));
+        return s.noise({ at: 0, dur: 0.1, cutoff: 6000, gain: 0.4 }).normalize();
+    },
+    clash_lose: sr => {
+        const s = new Sketch(sr, 0.8);
+        [67, 63, 60, 55].forEach((n, i) => s.tone({ at: i * 0.1, dur: i === 3 ? 0.45 : 0.12, freq: NOTE(n), wave: 'saw', gain: 0.3 }));
+        return s.normalize();
+    },
+    hit_enemy_1: sr => enemyHit(sr, 1),
+    hit_enemy_2: sr => enemyHit(sr, 1.25),
+    hit_enemy_3: sr => enemyHit(sr, 0.8),
+    die_enemy_1: sr => enemyDeath(sr, 1),
+    die_enemy_2: sr => enemyDeath(sr, 1.2),
+    die_enemy_3: sr => enemyDeath(sr, 0.85),
+    die_player: sr => new Sketch(sr, 1.4)
+        .tone({ at: 0, dur: 1.3, freq: 600, to: 50, wave: 'square', gain: 0.4 })
+        .tone({ at: 0, dur: 1.3, freq: 605, to: 51, wave: 'square', gain: 0.3 })
+        .noise({ at: 0, dur: 0.6, cutoff: 2000, cutoffTo: 100, gain: 0.4 }).normalize(),
+    reflect: sr => new Sketch(sr, 0.2)
+        .tone({ at: 0, dur: 0.18, freq: 1800, to: 2600, wave: 'triangle', gain: 0.5 })
+        .tone({ at: 0, dur: 0.05, freq: 3600, wave: 'square', gain: 0.15 }).normalize(0.8),
+    explosion: sr => explosion(sr, 0.9),
+    boss_spawn: sr => new Sketch(sr, 1.6)
+        .tone({ at: 0, dur: 1.5, freq: 55, wave: 'saw', gain: 0.4, attack: 0.6 })
+        .tone({ at: 0, dur: 1.5, freq: 58, wave: 'saw', gain: 0.4, attack: 0.6 })
+        .noise({ at: 0.8, dur: 0.7, cutoff: 400, cutoffTo: 3000, gain: 0.5, attack: 0.3 }).normalize(),
+    boss_death: sr => {
+        const s = new Sketch(sr, 2);
+        s.noise({ at: 0, dur: 1.8, cutoff: 3000, cutoffTo: 50, gain: 1 });
+        s.tone({ at: 0, dur: 1.6, freq: 400, to: 30, wave: 'square', gain: 0.3 });
+        return s.tone({ at: 0, dur: 1.2, freq: 80, to: 20, wave: 'sine', gain: 0.8 }).normalize();
+    },
+    bgm: sr => chiptune(sr, ['drums', 'bass', 'arp', 'lead']).normalize(0.8),
+    stem_drums: stem('drums'),
+    stem_bass: stem('bass'),
+    stem_arp: stem('arp'),
+    stem_lead: stem('lead'),
+    stem_boss: stem('boss'),
+    stinger_clash: sr => {
+        const s = new Sketch(sr, 0.9);
+        [0, 0.07, 0.14].forEach(at => [57, 64, 69].forEach(n => s.tone({ at, dur: 0.06, freq: NOTE(n), wave: 'square', gain: 0.2, release: 0.02 })));
+        [57, 64, 69, 76].forEach(n => s.tone({ at: 0.28, dur: 0.6, freq: NOTE(n), wave: 'saw', gain: 0.15 }));
+        return s.noise({ at: 0.28, dur: 0.4, cutoff: 5000, cutoffTo: 800, gain: 0.4 }).normalize(0.8);
+    }
+};
+
+export const hasRecipe = (name: string) => name in RECIPES;
+
+/** Renders the fallback for `name`, or null if no recipe exists. */
+export const synthesize = (name: string, sampleRate: number): Float32Array | null => RECIPES[name]?.(sampleRate) ?? null;
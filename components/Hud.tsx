@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { MIN_USER_ZOOM, MAX_USER_ZOOM } from '../constants';
+import { HudState } from '../engine/hud';
+import { STYLE_RANKS } from '../engine/style';
+
+export interface HudLabels {
+    health: string;
+    focus: string;
+    zoom: string;
+    style: string;
+    combo: string;
+    rankUp: string;
+    /** Shown over the clash meter; already names the attack key. */
+    mash: string;
+    /** Shown over the versus tap-off meter instead of `mash`. */
+    tapOff: string;
+    /** Tag on player two's meters in co-op. */
+    partner: string;
+    /** Shown over a downed samurai's revive bar. */
+    downed: string;
+}
+
+interface HudProps {
+    hud: HudState;
+    labels: HudLabels;
+    zoom: number;
+    onZoomChange: (zoom: number) => void;
+    /** Skips the rank-up flash and glow; the rank still changes. */
+    reduceFlashes: boolean;
+}
+
+// Takes the place of a downed samurai's health: how close their partner is to getting them up.
+const reviveMeter = (label: string, revive: number) => (
+    <div className="flex flex-col gap-1">
+        <div className="text-red-500 text-[10px] font-black tracking-[0.3em] animate-pulse">{label}</div>
+        <div role="meter" aria-label={label} aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(revive * 100)} className="h-2 bg-black/60 border border-red-500">
+            <div className="h-full bg-white" style={{ width: `${revive * 100}%` }} />
+        </div>
+    </div>
+);
+
+/** Health, focus, zoom, style rank and clash meter, laid over the canvas during a run. */
+const Hud: React.FC<HudProps> = ({ hud, labels, zoom, onZoomChange, reduceFlashes }) => {
+    // Remembered across renders so only an actual rank change replays the animation.
+    const prevRankRef = useRef(hud.rank);
+    const [rankChange, setRankChange] = useState<'up' | 'down' | null>(null);
+    useEffect(() => {
+        if (hud.rank === prevRankRef.current) return;
+        setRankChange(hud.rank > prevRankRef.current ? 'up' : 'down');
+        prevRankRef.current = hud.rank;
+    }, [hud.rank]);
+
+    const rank = STYLE_RANKS[hud.rank];
+    const rankClass = rankChange === 'up' ? (reduceFlashes ? 'animate-rank-in' : 'animate-rank-up') : rankChange === 'down' ? 'animate-rank-down' : '';
+
+    return (
+        <>
+            <div className="absolute top-24 left-1/2 -translate-x-1/2 w-full max-w-6xl flex justify-between items-start px-6 z-20 pointer-events-none">
+                <div className="flex items-end gap-4 pl-5">
+                    <div className="flex flex-col gap-1 w-64">
+                        <div role="meter" aria-label={labels.health} aria-valuemin={0} aria-valuemax={hud.maxHealth} aria-valuenow={hud.health} className="h-4 bg-black/60 border-2 border-white">
+                            <div className="h-full bg-red-500 transition-all" style={{ width: `${hud.health / hud.maxHealth * 100}%` }} />
+                        </div>
+                        <div role="meter" aria-label={labels.focus} aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(hud.focus * 100)} className="h-2 bg-black/60">
+                            <div className="h-full bg-sky-400" style={{ width: `${hud.focus * 100}%` }} />
+                        </div>
+                        {hud.revive !== null && reviveMeter(labels.downed, hud.revive)}
+                        {hud.partner && (
+                            <div className="flex flex-col gap-1 w-48 mt-2">
+                                <div className="flex justify-between text-cyan-400 text-[10px] font-black tracking-[0.3em]">
+                                    <span>{labels.partner}</span>
+                                    {hud.partner.rank !== null && <span className="italic">{STYLE_RANKS[hud.partner.rank].name}</span>}
+                                </div>
+                                {hud.partner.revive !== null ? reviveMeter(labels.downed, hud.partner.revive) : (
+                                    <div role="meter" aria-label={`${labels.partner} ${labels.health}`} aria-valuemin={0} aria-valuemax={hud.partner.maxHealth} aria-valuenow={hud.partner.health} className="h-3 bg-black/60 border-2 border-cyan-400">
+                                        <div className="h-full bg-red-500 transition-all" style={{ width: `${hud.partner.health / hud.partner.maxHealth * 100}%` }} />
+                                    </div>
+                                )}
+                                <div role="meter" aria-label={`${labels.partner} ${labels.focus}`} aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(hud.partner.focus * 100)} className="h-1 bg-black/60">
+                                    <div className="h-full bg-sky-400" style={{ width: `${hud.partner.focus * 100}%` }} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <label className="flex flex-col gap-1 text-white text-[8px] tracking-[0.3em] font-bold opacity-80 pointer-events-auto">
+                        {labels.zoom}
+                        {/* Gives focus back after a drag so the arrow keys go to the game, not the slider. */}
+                        <input type="range" min={MIN_USER_ZOOM} max={MAX_USER_ZOOM} step={0.05} value={zoom} onChange={e => onZoomChange(Number(e.target.value))} onPointerUp={e => e.currentTarget.blur()} className="w-32 accent-yellow-400" />
+                    </label>
+                </div>
+
+                <div className="flex flex-col items-end pr-5">
+                    <div className="text-white text-[10px] tracking-[0.3em] font-bold">{labels.style}</div>
+                    <div key={hud.rank} aria-live="polite" className={`text-5xl font-black italic text-yellow-400 ${reduceFlashes ? '' : 'rank-glow'} ${rankClass}`}>{rank.name}</div>
+                    <div className="w-40 h-3 bg-white/20 mt-1">
+                        <div className="h-full bg-yellow-400" style={{ width: `${hud.rankProgress * 100}%` }} />
+                    </div>
+                    {rankChange === 'up' && <div key={`up-${hud.rank}`} className="text-[10px] font-black tracking-[0.3em] text-yellow-400 mt-1 animate-fade-out">{labels.rankUp}</div>}
+                    {hud.combo > 1 && <div key={`combo-${hud.combo}`} className="text-white text-sm font-black italic mt-1 animate-pop">{hud.combo} {labels.combo}</div>}
+                </div>
+            </div>
+
+            {hud.clash !== null && (
+                <div className="absolute top-1/2 left-1/2 -translate-x-1/2 flex flex-col items-center gap-2 mt-12 z-20 pointer-events-none">
+                    <div className="text-white text-lg font-black tracking-widest animate-pulse">{hud.tapOff ? labels.tapOff : labels.mash}</div>
+                    {/* In a tap-off the empty part is player two's side, so it is drawn in their colour. */}
+                    <div role="meter" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(hud.clash * 100)} className={`w-96 h-6 border-2 border-white ${hud.tapOff ? 'bg-cyan-400' : 'bg-black/90'}`}>
+                        <div className="h-full bg-yellow-300" style={{ width: `${hud.clash * 100}%` }} />
+                    </div>
+                </div>
+            )}
+        </>
+    );
+};
+
+export default Hud;
@@ -52,3 +52,16 @@ export const SLOW_MO_FACTOR = 0.1;
 export const CLASH_DRAIN_RATE = 0.1; 
 export const CLASH_GAIN_PER_TAP = 25; 
 export const CLASH_WIN_THRESHOLD = 100;
+
+// Fixed-timestep simulation (gameplay tuned for 60 ticks per second)
+export const SIM_TICK_RATE = 60;
+export const SIM_TICK_MS = 1000 / SIM_TICK_RATE;
+export const MAX_TICKS_PER_FRAME = 5;
+
+// Analog movement: stick tilt is rounded to this many steps so replays and online input can carry it exactly.
+export const MOVE_STEPS = 15;
+
+// HUD: focus gauge capacity and the range of the player's zoom control
+export const MAX_FOCUS = 300;
+export const MIN_USER_ZOOM = 0.4;
+export const MAX_USER_ZOOM = 1.5;
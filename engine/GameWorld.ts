@@ -0,0 +1,1095 @@
+import {
+    EntityType, GameState, Entity, Bullet, GorePart, WallSplatter, ActionRecord, Vector2, Bird, Graffiti,
+    InputAction, InputFrame, GameMode, MapObject, BossMove
+} from '../types';
+import {
+    CANVAS_WIDTH, CANVAS_HEIGHT, COLORS, GRAVITY, FRICTION,
+    PLAYER_SPEED, JUMP_FORCE, ATTACK_DURATION, BULLET_SPEED,
+    SLOW_MO_FACTOR, CLASH_DRAIN_RATE, CLASH_GAIN_PER_TAP, CLASH_WIN_THRESHOLD, SIM_TICK_MS
+} from '../constants';
+import { STYLE_RANKS, StyleData, getStyleData } from './style';
+import { Rng, randomSeed } from './rng';
+import { getArchetype, pickArchetype } from './archetypes';
+import { StageRunner, getStage } from './stages';
+import { BOSS_INTRO_TICKS, BOSS_MOVES, BOSS_PHASES, MELEE_MOVES, phaseFor, chooseMove } from './boss';
+import { generateMapObjects, platformsOf, platformUnder, isOnSurface, surfaceBelow, resolveLanding, hitsPlatform } from './level';
+import { INPUT_ACTIONS } from '../input/bindings';
+import { RunStats, createRunStats } from './stats';
+import { TrainingConfig, MoveFeedback, SpecialMove, MissReason, defaultTrainingConfig, DUMMY_RESPAWN_TICKS, DUMMY_FIRE_INTERVAL, MOVE_LOG_SIZE } from './training';
+import {
+    PlayerSlot, StyleMeter, StyleSharing, createStyleMeter, MAX_PLAYERS, REVIVE_TICKS, REVIVE_RANGE, REVIVE_DECAY, REVIVE_HEALTH,
+    MAX_PLAYER_SPREAD, FRAME_MARGIN_X, FRAME_MARGIN_Y, SPAWN_X
+} from './coop';
+import { ParticlePool, ParticleKind } from './particles';
+import { VERSUS_SPAWN_X, VERSUS_HIT_DAMAGE, VERSUS_SPIN_DAMAGE, VERSUS_SPIN_INTERVAL, TAP_OFF_START, TAP_OFF_PER_TAP, TAP_OFF_TICKS, TAP_OFF_DAMAGE } from './versus';
+
+// Everything the simulation can make audible. AudioEngine implements it in the browser; headless runs use the silent default.
+export interface SoundSink {
+    /**
+     * `scale` multiplies the asset's level from CUE_VOLUMES, for the few cues that reuse a sound quieter or louder.
+     * `at` is the world position of the source; omit it for sounds that belong to the player or the UI.
+     */
+    playAsset(name: string, scale?: number, pitch?: number, at?: Vector2): void;
+    playEnemyHit(isFieldActive: boolean, at?: Vector2): void;
+    playEnemyDeath(at?: Vector2): void;
+    playPlayerAttack(at?: Vector2): void;
+    playProceduralWhoosh(pitch?: number): void;
+    startLoop(name: string, scale?: number): void;
+    stopLoop(name: string): void;
+}
+
+export interface WorldHooks {
+    audio: SoundSink;
+    onStateChange: (state: GameState) => void;
+    onScoreUpdate: (score: number) => void;
+}
+
+export interface WorldOptions {
+    /** Seed for every random roll in the run. Two worlds with the same seed and the same inputs stay identical. */
+    seed?: number;
+    /** Defaults to endless, which is also what replays without a mode were recorded in. */
+    mode?: GameMode;
+    /** Stage script to play in stage mode. */
+    stageId?: string;
+    /** Dummy and cheat setup in training mode. */
+    training?: TrainingConfig;
+    /** Samurai on the field, 1 or 2; versus is always 2. Each one reads its own entry of the inputs passed to `step()`. */
+    players?: number;
+    /** Co-op only: whether both samurai build one style meter or one each. Defaults to shared. */
+    styleSharing?: StyleSharing;
+}
+
+/** How a finished run went, for the game-over and victory screens. */
+export interface RunSummary {
+    mode: GameMode;
+    durationMs: number;
+    kills: number;
+    score: number;
+    peakRank: string;
+    players: number;
+    /** Versus only: the slot left standing, or null when both fell on the same tick. */
+    winner?: number | null;
+    stats: RunStats;
+}
+
+/** One samurai as the renderer and HUD see it. */
+export interface PlayerView {
+    entity: Entity;
+    decoy: Entity | null;
+    style: StyleData;
+    downed: boolean;
+    /** Revive progress while downed, 0..1. */
+    revive: number;
+}
+
+export interface CameraState {
+    x: number;
+    y: number;
+    zoom: number;
+}
+
+/**
+ * Read-only view of the world after the latest tick. Arrays and entities are the live objects, not copies:
+ * read them before the next `step()` and never mutate them.
+ */
+export interface WorldSnapshot {
+    state: GameState;
+    tick: number;
+    simTime: number;
+    /** Player one, and player one's decoy. */
+    player: Entity;
+    decoy: Entity | null;
+    /** Every samurai in slot order; `players[0]` is `player`. */
+    players: readonly PlayerView[];
+    styleSharing: StyleSharing;
+    enemies: readonly Entity[];
+    bullets: readonly Bullet[];
+    particles: ParticlePool;
+    goreParts: readonly GorePart[];
+    wallSplatters: readonly WallSplatter[];
+    birds: readonly Bird[];
+    graffiti: readonly Graffiti[];
+    mapObjects: readonly MapObject[];
+    camera: CameraState;
+    prevCamera: CameraState;
+    /** Positions from before the latest tick, keyed by entity/bullet id, for render interpolation. */
+    prevPositions: ReadonlyMap<string, Vector2>;
+    cameraShake: number;
+    userZoom: number;
+    score: number;
+    /** Player one's style; with a shared meter, everyone's. */
+    stylePoints: number;
+    style: StyleData;
+    killCombo: number;
+    clashProgress: number;
+    /** The clash on is a versus tap-off: the meter is player one's share rather than a bar to fill. */
+    tapOff: boolean;
+    mode: GameMode;
+    /** The boss on the field, for the HUD bar and intro banner. */
+    boss: { health: number, maxHealth: number, phase: number, phaseCount: number, intro: number } | null;
+    /** Current wave (0-based) and wave count in stage mode, null in endless. */
+    wave: { index: number, total: number } | null;
+    /** Recent presses and special-move feedback in training mode, null otherwise. */
+    training: { inputHistory: readonly { key: InputAction, time: number }[], moveLog: readonly MoveFeedback[], revision: number } | null;
+}
+
+const silentAudio: SoundSink = {
+    playAsset() {}, playEnemyHit() {}, playEnemyDeath() {}, playPlayerAttack() {},
+    playProceduralWhoosh() {}, startLoop() {}, stopLoop() {}
+};
+
+// --- CAPE MUCH SMALLER (Final refinement) ---
+export const initCapePoints = (x: number, y: number): Vector2[] => {
+    const points: Vector2[] = [];
+    for (let i = 0; i < 4; i++) points.push({ x: x - i * 1.5, y: y + i * 1.5 });
+    return points;
+};
+
+const createPlayer = (index: number, x: number): Entity => ({
+    id: index === 0 ? 'player' : `player-${index + 1}`, type: EntityType.PLAYER, pos: { x, y: 300 }, vel: { x: 0, y: 0 },
+    width: 45, height: 85, health: 100, maxHealth: 100, facing: x > SPAWN_X[0] ? -1 : 1, state: 'idle',
+    stateTimer: 0, canAttack: true, attackCooldown: 0, comboIndex: 0, comboResetTimer: 0, windup: 0,
+    bloodOnBody: [], lastTapTime: {}, airComboCount: 0, dodgeCooldown: 0,
+    slowMoEnergy: 300, isSlowMoActive: false,
+    capePoints: initCapePoints(x, 300)
+});
+
+const createSlot = (index: number, style: StyleMeter, x: number): PlayerSlot => ({
+    index, entity: createPlayer(index, x), decoy: null, style, keys: {}, processedKeys: {}, inputHistory: [],
+    jDownTime: null, lDownTime: null, actionHistory: [], prevHealth: 100, downed: false, revive: 0, landedAt: null
+});
+
+const ATTACK_STATES = ['attack', 'launcher', 'dash_attack', 'downward_strike', 'air_attack', 'spin_attack'];
+
+const centerX = (e: Entity) => e.pos.x + e.width / 2;
+
+/**
+ * Headless simulation of one run. Owns every piece of gameplay state and advances it one fixed tick per `step()`;
+ * it never touches the DOM, a canvas or wall-clock time, so it runs the same in the browser and under Node.
+ */
+export class GameWorld {
+    state: GameState = GameState.PLAYING;
+    tick = 0;
+    simTime = 0;
+
+    // Gameplay rolls and cosmetic rolls use separate streams, so effect tweaks never shift spawns or AI.
+    readonly seed: number;
+    rng: Rng;
+    fxRng: Rng;
+    private idCounter = 0;
+
+    /** One slot per samurai; slot 0 is player one. */
+    slots: PlayerSlot[];
+    readonly styleSharing: StyleSharing;
+    enemies: Entity[] = [];
+    bullets: Bullet[] = [];
+    particles = new ParticlePool();
+    goreParts: GorePart[] = [];
+    wallSplatters: WallSplatter[] = [];
+    birds: Bird[] = [];
+    graffiti: Graffiti[] = [];
+
+    cameraX = 0;
+    cameraY = 0;
+    cameraZoom = 0.4;
+    cameraTargetZoom = 0.4;
+    userZoom = 0.4;
+    /** Fraction of cosmetic particles to spawn. Particles never feed back into gameplay, so this is safe mid-replay. */
+    particleScale = 1;
+    cameraShake = 0;
+    hitStop = 0;
+    prevCamera: CameraState = { x: 0, y: 0, zoom: 0.4 };
+    prevPositions = new Map<string, Vector2>();
+
+    score = 0;
+    killCombo = 0;
+    lastKillTime = 0;
+
+    clashProgress = 40;
+    clashTimer = 300;
+    clashTargetId: string | null = null;
+    /** Slot of the samurai locked in the clash; everyone else waits it out. */
+    clashSlot = 0;
+    /** The clash is between the two samurai of a versus run, both tapping, rather than one against an enemy. */
+    tapOff = false;
+    clashCooldown = 0;
+    /** Versus only: set when the run ends, see RunSummary.winner. */
+    winner: number | null = null;
+
+    // --- LEVEL GEOMETRY ---
+    mapObjects: MapObject[];
+    platforms: MapObject[];
+
+    // --- NEW SPAWN MECHANICS ---
+    readonly mode: GameMode;
+    stage: StageRunner | null = null;
+    training: TrainingConfig | null = null;
+    moveLog: MoveFeedback[] = [];
+    /** Bumped whenever the training feed changes, so the UI only re-renders when there is something new. */
+    trainingRevision = 0;
+    dummyRespawnTimer = 0;
+    kills = 0;
+    peakStyleIndex = 0;
+    stats: RunStats;
+    spawnTimer = 80;
+    enemySpawnCountInCycle = 0;
+    bossIndicesInCycle: number[] = [];
+
+    private hooks: WorldHooks;
+
+    constructor(hooks: Partial<WorldHooks> = {}, options: WorldOptions = {}) {
+        this.hooks = { audio: silentAudio, onStateChange: () => {}, onScoreUpdate: () => {}, ...hooks };
+        this.seed = options.seed ?? randomSeed();
+        this.rng = new Rng(this.seed);
+        this.fxRng = new Rng(this.seed ^ 0x9e3779b9);
+        this.mapObjects = generateMapObjects(new Rng(this.seed ^ 0x85ebca6b));
+        this.platforms = platformsOf(this.mapObjects);
+        this.mode = options.mode ?? 'endless';
+        // Rivals never share a meter.
+        this.styleSharing = this.mode === 'versus' ? 'split' : options.styleSharing ?? 'shared';
+        const shared = createStyleMeter();
+        const players = this.mode === 'versus' ? 2 : Math.max(1, Math.min(MAX_PLAYERS, options.players ?? 1));
+        const spawnX = this.mode === 'versus' ? VERSUS_SPAWN_X : SPAWN_X;
+        this.slots = Array.from({ length: players }, (_, i) => createSlot(i, this.styleSharing === 'split' && i > 0 ? createStyleMeter() : shared, spawnX[i]));
+        this.stats = createRunStats(players);
+        if (this.mode === 'stage') this.stage = new StageRunner(getStage(options.stageId ?? 'neon-district'), this.rng);
+        else if (this.mode === 'training') this.training = options.training ?? defaultTrainingConfig();
+        else this.generateBossIndices();
+        this.generateInitialGraffiti();
+    }
+
+    get audio() { return this.hooks.audio; }
+
+    get player() { return this.slots[0].entity; }
+    get decoy() { return this.slots[0].decoy; }
+    get stylePoints() { return this.slots[0].style.points; }
+
+    /** Applies a state chosen outside the simulation (menus). Transitions made by the sim itself go through `changeState`. */
+    setState(state: GameState) { this.state = state; }
+
+    setUserZoom(zoom: number) { this.userZoom = zoom; }
+    setParticleScale(scale: number) { this.particleScale = scale; }
+
+    getStyleData() { return getStyleData(this.stylePoints); }
+    private styleOf(slot: PlayerSlot) { return getStyleData(slot.style.points); }
+
+    /** Mean x of every samurai, standing or down: what the camera follows and what spawns and culling measure from. */
+    private focusX() { return this.slots.reduce((sum, slot) => sum + slot.entity.pos.x, 0) / this.slots.length; }
+    private focusY() { return this.slots.reduce((sum, slot) => sum + slot.entity.pos.y, 0) / this.slots.length; }
+
+    /** The standing samurai closest to `e`; enemies chase and swing at it. */
+    private targetOf(e: Entity) {
+        const standing = this.slots.filter(slot => !slot.downed);
+        const candidates = standing.length > 0 ? standing : this.slots;
+        return candidates.reduce((best, slot) => Math.abs(centerX(slot.entity) - centerX(e)) < Math.abs(centerX(best.entity) - centerX(e)) ? slot : best);
+    }
+
+    getSnapshot(): WorldSnapshot {
+        return {
+            state: this.state, tick: this.tick, simTime: this.simTime,
+            player: this.player, decoy: this.decoy,
+            players: this.slots.map(slot => ({ entity: slot.entity, decoy: slot.decoy, style: this.styleOf(slot), downed: slot.downed, revive: slot.revive / REVIVE_TICKS })),
+            styleSharing: this.styleSharing, enemies: this.enemies, bullets: this.bullets, particles: this.particles,
+            goreParts: this.goreParts, wallSplatters: this.wallSplatters, birds: this.birds, graffiti: this.graffiti, mapObjects: this.mapObjects,
+            camera: { x: this.cameraX, y: this.cameraY, zoom: this.cameraZoom }, prevCamera: this.prevCamera, prevPositions: this.prevPositions,
+            cameraShake: this.cameraShake, userZoom: this.userZoom,
+            score: this.score, stylePoints: this.stylePoints, style: this.getStyleData(), killCombo: this.killCombo, clashProgress: this.clashProgress, tapOff: this.tapOff,
+            boss: this.getBossSnapshot(), mode: this.mode, wave: this.stage ? { index: Math.min(this.stage.waveIndex, this.stage.stage.waves.length - 1), total: this.stage.stage.waves.length } : null,
+            training: this.training ? { inputHistory: this.slots[0].inputHistory, moveLog: this.moveLog, revision: this.trainingRevision } : null
+        };
+    }
+
+    private getBossSnapshot(): WorldSnapshot['boss'] {
+        const boss = this.enemies.find(e => e.boss);
+        if (!boss || !boss.boss) return null;
+        return { health: Math.max(0, boss.health), maxHealth: boss.maxHealth, phase: boss.boss.phase, phaseCount: BOSS_PHASES.length, intro: boss.boss.intro / BOSS_INTRO_TICKS };
+    }
+
+    getRunSummary(): RunSummary {
+        return { mode: this.mode, durationMs: this.simTime, kills: this.kills, score: this.score, peakRank: STYLE_RANKS[this.peakStyleIndex].name, players: this.slots.length, ...(this.mode === 'versus' ? { winner: this.winner } : {}), stats: this.stats };
+    }
+
+    /** FNV-style fingerprint of the gameplay state (not cosmetics), compared between online peers to catch a desync. */
+    checksum() {
+        let hash = 0x811c9dc5 ^ this.tick;
+        const mix = (value: number) => { hash = Math.imul(hash ^ Math.round(value * 100), 0x01000193) >>> 0; };
+        this.slots.forEach(slot => { mix(slot.entity.pos.x); mix(slot.entity.pos.y); mix(slot.entity.health); mix(slot.style.points); });
+        this.enemies.forEach(e => { mix(e.pos.x); mix(e.pos.y); mix(e.health); });
+        mix(this.score); mix(this.bullets.length);
+        return hash;
+    }
+
+    private nextId(prefix: string) { return `${prefix}-${++this.idCounter}`; }
+
+    private changeState(state: GameState) {
+        this.state = state;
+        this.hooks.onStateChange(state);
+    }
+
+    private generateBossIndices() {
+        const indices: number[] = [];
+        while (indices.length < 2) {
+            const idx = this.rng.int(15) + 1;
+            if (!indices.includes(idx)) indices.push(idx);
+        }
+        this.bossIndicesInCycle = indices;
+    }
+
+    private generateInitialGraffiti() {
+        const graffiti: Graffiti[] = [];
+        const words = ['NEVER DIE', 'PUNK', 'SAMURAI', 'REBEL', 'FUCK CAPITAL', 'METAL', 'CLASH', 'ZERO', 'SHINOBI', 'REVOLUTION', 'CHAOS', 'RISE UP', 'RESIST', 'ANARCHY', 'NO MASTERS', 'FUTURE IS DEAD', 'LIBERTY', 'WAKE UP', 'DESTROY', 'FIGHT SYSTEM'];
+        for (let i = -150; i < 300; i++) {
+            const segmentX = i * 400;
+            if (this.fxRng.next() > 0.4) {
+                graffiti.push({
+                    x: segmentX + this.fxRng.next() * 200,
+                    y: 150 + this.fxRng.next() * 150,
+                    text: this.fxRng.pick(words),
+                    type: 'text',
+                    color: this.fxRng.pick(COLORS.GRAFFITI),
+                    rotation: (this.fxRng.next() - 0.5) * 0.4,
+                    scale: 0.8 + this.fxRng.next() * 1.5
+                });
+            }
+            if (this.fxRng.next() > 0.6) {
+                graffiti.push({
+                    x: segmentX + this.fxRng.next() * 200,
+                    y: 150 + this.fxRng.next() * 150,
+                    type: 'shape',
+                    color: this.fxRng.pick(COLORS.GRAFFITI),
+                    rotation: this.fxRng.next() * Math.PI * 2,
+                    scale: 1 + this.fxRng.next() * 2
+                });
+            }
+        }
+        this.graffiti = graffiti;
+    }
+
+    private addStyle(slot: PlayerSlot, amount: number, skillName: string) {
+        const p = slot.entity; const meter = slot.style;
+        const isInAir = p.pos.y < surfaceBelow(this.platforms, p) - p.height - 5;
+        if (skillName === 'parry') {
+            const currentRankData = this.styleOf(slot);
+            const nextLevelIdx = currentRankData.index + 1;
+            const nextLevelThreshold = STYLE_RANKS[Math.min(nextLevelIdx, STYLE_RANKS.length - 1)].threshold;
+            meter.points = Math.max(meter.points, nextLevelThreshold);
+        }
+        let multiplier = skillName === meter.lastSkillUsed ? 1.0 : 2.5;
+        if (isInAir) multiplier *= 2.0;
+        if (p.isSlowMoActive) multiplier *= 2.0;
+        const gain = (amount * multiplier) * 0.1;
+        meter.points = Math.min(45000, meter.points + gain);
+        meter.lastAttackTime = this.simTime;
+        meter.lastSkillUsed = skillName;
+    }
+
+    // --- EFFECTS ---
+    addParticles(x: number, y: number, color: string, count: number, isBlood = false, force = 1) {
+        count = Math.ceil(count * this.particleScale);
+        for (let i = 0; i < count; i++) {
+            const isLiquid = isBlood && this.fxRng.next() > 0.45;
+            this.particles.spawn(isLiquid ? ParticleKind.LIQUID : isBlood ? ParticleKind.BLOOD : ParticleKind.DUST, color, x, y,
+                (this.fxRng.next() - 0.5) * (isBlood ? 20 : 8) * force, (this.fxRng.next() - 1.5) * (isBlood ? 38 : 8) * force,
+                isLiquid ? (50 + this.fxRng.next() * 80) : (25 + this.fxRng.next() * 35), isLiquid ? 120 : 60,
+                isLiquid ? (10 + this.fxRng.next() * 15) : ((isBlood ? 6 : 2) + this.fxRng.next() * 5));
+        }
+    }
+
+    addSwordPetals(x: number, y: number) {
+        this.addShockwave(x, y, 600);
+        const petals = Math.ceil(90 * this.particleScale);
+        for (let i = 0; i < petals; i++) {
+            const angle = (Math.PI * 2 / petals) * i; const speed = 40 + this.fxRng.next() * 30; const color = i % 2 === 0 ? '#fff' : (i % 3 === 0 ? '#f0f' : '#0ff');
+            this.particles.spawn(ParticleKind.STREAK, color, x, y, Math.cos(angle) * speed, Math.sin(angle) * speed, 60, 60, 35);
+        }
+        for (let k = 0; k < 12; k++) { const rot = this.fxRng.next() * Math.PI * 2; this.addStreak(x, y, Math.cos(rot) * 60, Math.sin(rot) * 60, '#fff', 3); }
+        this.addParticles(x, y, '#ffffff', 80, false, 5.0);
+    }
+
+    addShockwave(x: number, y: number, size = 100) {
+        this.particles.spawn(ParticleKind.SHOCKWAVE, '#fbbf24', x, y, 0, 0, 25, 25, size);
+    }
+
+    addStreak(x: number, y: number, vx: number, vy: number, color = '#fff', sizeMod = 1) {
+        this.particles.spawn(ParticleKind.STREAK, color, x, y, vx, vy, 18, 18, (6 + this.fxRng.next() * 10) * sizeMod);
+    }
+
+    private addBloodToPlayer(p: Entity) {
+        for (let i = 0; i < 12; i++) { p.bloodOnBody.push({ id: this.nextId('blood'), relX: (this.fxRng.next() - 0.5) * p.width, relY: -this.fxRng.next() * p.height, life: 240, maxLife: 240 }); }
+    }
+
+    private spawnGore(entity: Entity, scale = 1.0) {
+        const parts: GorePart['type'][] = ['head', 'torso', 'left_arm', 'right_arm', 'left_leg', 'right_leg'];
+        const colors = entity.id === 'player' ? [COLORS.PLAYER, COLORS.PLAYER_SCARF] : [entity.colorVariant || COLORS.ENEMY, '#ff0044'];
+        parts.forEach(type => {
+            this.goreParts.push({
+                pos: { x: entity.pos.x + entity.width / 2, y: entity.pos.y + entity.height / 2 },
+                vel: { x: (this.fxRng.next() - 0.5) * 20, y: -this.fxRng.next() * 28 - 10 },
+                rotation: this.fxRng.next() * Math.PI * 2, rotVel: (this.fxRng.next() - 0.5) * 0.5,
+                width: (type === 'torso' ? 24 : (type === 'head' ? 16 : 10)) * scale, height: (type === 'torso' ? 30 : (type === 'head' ? 16 : 22)) * scale,
+                type, color: this.fxRng.pick(colors),
+                isBleeding: true, bleedTimer: 180, sprayTimer: 0, isGrounded: false, offscreenTimer: 0
+            });
+        });
+    }
+
+    private addWallSplatter(x: number, y: number, isMassive = false) {
+        const density = this.wallSplatters.filter(s => Math.abs(s.x - x) < 120 && Math.abs(s.y - y) < 120).length;
+        if (density > 10) return;
+
+        if (this.wallSplatters.length > 200) this.wallSplatters.shift();
+        const count = isMassive ? 18 : 8; const spread = isMassive ? 350 : 200; const sizeBase = isMassive ? 100 : 60; const opacityBase = isMassive ? 0.6 : 0.9;
+        for (let i = 0; i < count; i++) {
+            const size = sizeBase + this.fxRng.next() * sizeBase; const dots = []; const dotCount = isMassive ? 30 : 20;
+            for (let j = 0; j < dotCount; j++) { const ang = this.fxRng.next() * Math.PI * 2; const rad = this.fxRng.next() * size; dots.push({ dx: Math.cos(ang) * rad, dy: Math.sin(ang) * rad * 0.8, size: 2 + this.fxRng.next() * 4 }); }
+            this.wallSplatters.push({ x: x + (this.fxRng.next() - 0.5) * spread, y: y - this.fxRng.next() * spread - 100, size, opacity: opacityBase, rotation: this.fxRng.next() * Math.PI * 2, dots, offscreenTimer: 0 });
+        }
+    }
+
+    // --- SPAWNING ---
+    private spawnEnemy() {
+        if (this.enemies.length >= 6) return;
+        this.enemySpawnCountInCycle++;
+        if (this.bossIndicesInCycle.includes(this.enemySpawnCountInCycle)) { this.spawnBoss(); }
+        const a = pickArchetype(this.rng.next());
+        this.spawnArchetype(a.type, this.rng.next() > 0.5 ? 1 : -1);
+        if (this.enemySpawnCountInCycle >= 15) { this.enemySpawnCountInCycle = 0; this.generateBossIndices(); }
+    }
+
+    private spawnArchetype(type: EntityType, side: number) {
+        const a = getArchetype(type);
+        const spawnX = this.focusX() + side * (CANVAS_WIDTH * 0.75);
+        const id = this.nextId('enemy');
+        this.enemies.push({
+            id, type: a.type, pos: { x: spawnX, y: CANVAS_HEIGHT - 40 - a.height }, vel: { x: 0, y: 0 }, width: a.width, height: a.height,
+            health: a.health, maxHealth: a.health, facing: -side, state: 'idle', stateTimer: 0, canAttack: true,
+            attackCooldown: 60 + this.rng.next() * 60, comboIndex: 0, comboResetTimer: 0, windup: 0,
+            bloodOnBody: [], lastTapTime: {}, airComboCount: 0, dodgeCooldown: 0, colorVariant: a.color
+        });
+        return id;
+    }
+
+    private spawnBoss(side = this.rng.next() > 0.5 ? 1 : -1) {
+        const spawnX = this.focusX() + side * (CANVAS_WIDTH * 0.9);
+        const a = getArchetype(EntityType.BOSS);
+        const id = this.nextId('boss');
+        this.enemies.push({ id, type: EntityType.BOSS, pos: { x: spawnX, y: CANVAS_HEIGHT - 40 - a.height }, vel: { x: 0, y: 0 }, width: a.width, height: a.height, health: a.health, maxHealth: a.health, facing: -side, state: 'idle', stateTimer: 0, canAttack: true, attackCooldown: 120, comboIndex: 0, comboResetTimer: 0, windup: 0, bloodOnBody: [], lastTapTime: {}, airComboCount: 0, dodgeCooldown: 0, colorVariant: a.color, boss: { phase: 0, move: null, intro: BOSS_INTRO_TICKS } });
+        this.audio.playAsset('boss_spawn', 1, 1, { x: spawnX, y: CANVAS_HEIGHT - 40 - a.height });
+        this.cameraShake = 12;
+        return id;
+    }
+
+    /** Swaps the training setup mid-run. Dummies from the old setup are cleared and the new ones walk in. */
+    setTraining(config: TrainingConfig) {
+        if (!this.training) return;
+        const changed = config.dummyType !== this.training.dummyType || config.behavior !== this.training.behavior;
+        this.training = config;
+        if (changed) { this.enemies = this.enemies.filter(e => !e.dummy); this.bullets = this.bullets.filter(b => b.owner === 'player'); }
+        this.enemies.forEach(e => { if (e.dummy) e.dummy = config.behavior; });
+        this.dummyRespawnTimer = 0;
+    }
+
+    /** Training mode spawner: keeps the configured dummies on the field and applies the cheats. */
+    private updateTraining(training: TrainingConfig) {
+        this.slots.forEach(({ entity: p }) => {
+            if (training.infiniteHealth) p.health = p.maxHealth;
+            if (training.infiniteFocus) p.slowMoEnergy = 300;
+        });
+        const dummies = this.enemies.filter(e => e.dummy);
+        if (dummies.length > training.count) { const extra = new Set(dummies.slice(training.count).map(e => e.id)); this.enemies = this.enemies.filter(e => !extra.has(e.id)); }
+        if (dummies.length >= training.count) { this.dummyRespawnTimer = DUMMY_RESPAWN_TICKS; return; }
+        if (this.dummyRespawnTimer-- > 0) return;
+        const side = dummies.length % 2 === 0 ? 1 : -1;
+        const id = training.dummyType === EntityType.BOSS ? this.spawnBoss(side) : this.spawnArchetype(training.dummyType, side);
+        const dummy = this.enemies.find(e => e.id === id)!;
+        dummy.dummy = training.behavior;
+        dummy.attackCooldown = DUMMY_FIRE_INTERVAL;
+        if (dummy.boss) dummy.boss.intro = 0;
+        this.dummyRespawnTimer = DUMMY_RESPAWN_TICKS;
+    }
+
+    /** Idle and shooting dummies replace the normal AI: they hold their ground and face their target. */
+    private updateDummy(e: Entity, facing: number) {
+        if (e.state === 'hurt' || e.state === 'clash') return;
+        e.vel.x = 0; e.facing = facing; e.windup = 0;
+        if (e.state !== 'attack') e.state = 'idle';
+        if (e.dummy !== 'shoot' || e.attackCooldown-- > 0) return;
+        this.bullets.push({ id: this.nextId('bullet'), pos: { x: e.pos.x + e.facing * 50, y: e.pos.y + 40 }, vel: { x: e.facing * BULLET_SPEED, y: 0 }, owner: 'enemy', radius: 15, isReflected: false, hitList: [] });
+        this.audio.playAsset('reflect', 0.5, 0.8, e.pos);
+        e.attackCooldown = DUMMY_FIRE_INTERVAL;
+    }
+
+    /** Records a special-move attempt for the training overlay. Outside training this is a no-op. */
+    private noteMove(move: SpecialMove, missed?: MissReason) {
+        if (!this.training) return;
+        this.moveLog.push({ time: this.simTime, move, missed });
+        if (this.moveLog.length > MOVE_LOG_SIZE) this.moveLog.shift();
+        this.trainingRevision++;
+    }
+
+    /** Boss AI: entrance, phase changes at health thresholds, then telegraphed moves picked by phase and distance. */
+    private updateBoss(e: Entity, p: Entity, distAbs: number, dt: number) {
+        const boss = e.boss!; const a = getArchetype(e.type);
+        const eCenter = e.pos.x + e.width / 2;
+        if (boss.intro > 0) {
+            boss.intro -= 1; e.facing = p.pos.x + p.width / 2 > eCenter ? 1 : -1; e.vel.x = e.facing * 0.6; e.state = 'run';
+            if (boss.intro % 50 === 0) this.cameraShake = 8;
+            return;
+        }
+        const nextPhase = phaseFor(e.health, e.maxHealth);
+        if (nextPhase > boss.phase) {
+            boss.phase = nextPhase; boss.move = null; e.windup = 0; e.vel.x = 0; e.state = 'idle'; e.attackCooldown = 90;
+            this.cameraShake = 25; this.addShockwave(eCenter, e.pos.y + e.height, 800); this.audio.playAsset('boss_spawn', 1, 0.8, e.pos);
+            return;
+        }
+        if (e.state === 'attack' || e.state === 'hurt' || e.state === 'clash') return;
+        if (e.windup > 0) {
+            e.windup -= dt; e.vel.x = 0;
+            if (e.windup <= 0 && boss.move) this.releaseBossMove(e, boss.move);
+            return;
+        }
+        e.facing = p.pos.x + p.width / 2 > eCenter ? 1 : -1;
+        const phase = BOSS_PHASES[boss.phase];
+        if (e.attackCooldown > 0) e.attackCooldown -= dt;
+        const move = e.attackCooldown <= 0 ? chooseMove(phase, distAbs, this.rng.next()) : null;
+        if (move) { boss.move = move; e.windup = BOSS_MOVES[move].windup; e.vel.x = 0; e.state = 'idle'; }
+        else if (distAbs > a.range) { e.vel.x = e.facing * phase.speed; e.state = 'run'; }
+        else { e.vel.x = 0; e.state = 'idle'; }
+    }
+
+    private releaseBossMove(e: Entity, move: BossMove) {
+        const def = BOSS_MOVES[move]; const phase = BOSS_PHASES[e.boss!.phase];
+        const eCenter = e.pos.x + e.width / 2, feetY = e.pos.y + e.height;
+        e.state = 'attack'; e.stateTimer = def.duration; e.attackCooldown = def.cooldown * phase.cooldownScale;
+        if (move === 'lunge') {
+            e.vel.x = e.facing * 22; this.audio.playAsset('dash_attack', 0.85, 0.7, e.pos);
+            for (let i = 0; i < 30; i++) this.addStreak(eCenter, e.pos.y + this.fxRng.next() * e.height, -e.facing * (60 + this.fxRng.next() * 120), (this.fxRng.next() - 0.5) * 20, '#f87171', 3.0);
+        } else if (move === 'shockwave') {
+            [-1, 1].forEach(dir => this.bullets.push({ id: this.nextId('bullet'), pos: { x: eCenter, y: feetY - 20 }, vel: { x: dir * 9, y: 0 }, owner: 'enemy', radius: 30, isReflected: false, hitList: [], kind: 'shockwave' }));
+            this.addShockwave(eCenter, feetY, 700); this.cameraShake = 20; this.audio.playAsset('slam_hit', 1, 0.7, e.pos);
+        } else if (move === 'volley') {
+            for (let i = 0; i < phase.volleyCount; i++) {
+                const spread = i - (phase.volleyCount - 1) / 2;
+                this.bullets.push({ id: this.nextId('bullet'), pos: { x: eCenter + e.facing * 80, y: e.pos.y + 70 }, vel: { x: e.facing * BULLET_SPEED * 1.2, y: spread * 0.5 }, owner: 'enemy', radius: 15, isReflected: false, hitList: [] });
+            }
+            this.audio.playAsset('reflect', 0.67, 0.6, e.pos);
+        } else if (move === 'summon') {
+            [-1, 1].forEach((side, i) => { if (this.enemies.length < 6) this.spawnArchetype(i === 0 ? EntityType.ENEMY_STRIKER : EntityType.ENEMY_SWORD, side); });
+            this.addShockwave(eCenter, feetY, 400); this.audio.playAsset('boss_spawn', 0.6, 1.4, e.pos);
+        } else {
+            this.audio.playPlayerAttack(e.pos);
+        }
+    }
+
+    /** Stage mode spawner: the script decides what enters and when, and clearing the last wave wins the stage. */
+    private updateStage(stage: StageRunner) {
+        stage.due(Math.max(0, 6 - this.enemies.length)).forEach(({ type, side }) => {
+            stage.track(type === EntityType.BOSS ? this.spawnBoss(side) : this.spawnArchetype(type, side), type);
+        });
+        stage.update(new Set(this.enemies.map(e => e.id)));
+        if (stage.cleared && this.slots.some(slot => slot.entity.health > 0)) this.changeState(GameState.VICTORY);
+    }
+
+    /** Platform pathing: hop up to a player standing above, drop through when the player is below. */
+    private pathToPlayer(e: Entity, p: Entity, distAbs: number) {
+        if ((e.climbCooldown || 0) > 0 || (e.dropTimer || 0) > 0) return;
+        const rise = (e.pos.y + e.height) - (p.pos.y + p.height);
+        if (rise > 60 && distAbs < 260 && isOnSurface(this.platforms, p)) { e.vel.y = JUMP_FORCE; e.climbCooldown = 90; }
+        else if (rise < -60 && distAbs < 400 && platformUnder(this.platforms, e)) { e.dropTimer = 14; e.climbCooldown = 60; }
+    }
+
+    private breakProp(o: MapObject, slot = this.slots[0]) {
+        o.isBroken = true;
+        const cx = o.pos.x + o.width / 2, cy = o.pos.y + o.height / 2;
+        this.addParticles(cx, cy, '#15803d', 24, false, 2.0);
+        this.addParticles(cx, o.pos.y + o.height - 10, '#9a3412', 10, false, 1.5);
+        this.audio.playAsset('slam_hit', 0.3, 1.8, o.pos);
+        this.addStyle(slot, 60, 'prop');
+    }
+
+    private spawnBird() {
+        const side = this.fxRng.next() > 0.5 ? 1 : -1; const spawnX = this.focusX() + side * (CANVAS_WIDTH * 1.5); const spawnY = 50 + this.fxRng.next() * 150;
+        this.birds.push({ id: this.nextId('bird'), pos: { x: spawnX, y: spawnY }, vel: { x: -side * (1.5 + this.fxRng.next() * 2.5), y: (this.fxRng.next() - 0.5) * 0.5 }, flapPhase: this.fxRng.next() * Math.PI * 2, flapSpeed: 0.15 + this.fxRng.next() * 0.1, size: 4 + this.fxRng.next() * 4 });
+    }
+
+    private updateCape(p: Entity, dt: number) {
+        if (!p.capePoints) p.capePoints = initCapePoints(p.pos.x, p.pos.y);
+        const anchorX = p.pos.x + (p.facing === 1 ? 5 : p.width - 5); const anchorY = p.pos.y + 25;
+        p.capePoints[0] = { x: anchorX, y: anchorY };
+        for (let i = 1; i < p.capePoints.length; i++) {
+            const target = p.capePoints[i - 1]; const current = p.capePoints[i]; const dx = target.x - current.x; const dy = target.y - current.y;
+            const dist = Math.sqrt(dx * dx + dy * dy);
+            const targetDist = 4;
+            const stiffness = 0.55;
+            const force = (dist - targetDist) * stiffness;
+            current.x += (dx / dist) * force * dt; current.y += (dy / dist) * force * dt;
+            current.y += 0.45 * dt; current.x -= p.vel.x * 0.1 * dt;
+        }
+    }
+
+    // --- INPUT ---
+    // Action transitions are derived from consecutive tick inputs, so press timing is measured on the sim clock.
+    private applyInput(slot: PlayerSlot, input: InputFrame) {
+        const prev = slot.keys;
+        INPUT_ACTIONS.forEach(action => {
+            if (input[action] && !prev[action]) this.onActionDown(slot, action);
+            else if (prev[action] && !input[action]) this.onActionUp(slot, action);
+        });
+        slot.keys = { ...input };
+    }
+
+    private onActionDown(slot: PlayerSlot, action: InputAction) {
+        if (action === 'attack') slot.jDownTime = this.simTime;
+        if (action === 'dodge') slot.lDownTime = this.simTime;
+        slot.inputHistory.push({ key: action, time: this.simTime });
+        if (slot.inputHistory.length > 10) slot.inputHistory.shift();
+        if (this.training) this.trainingRevision++;
+    }
+
+    private onActionUp(slot: PlayerSlot, action: InputAction) {
+        const p = slot.entity;
+        if (action === 'attack') {
+            slot.jDownTime = null;
+            slot.processedKeys['spin_noted'] = false;
+            if (p.state === 'spin_attack') {
+                p.state = 'idle';
+                p.stateTimer = 0;
+                this.audio.stopLoop('focus_loop');
+            }
+        }
+        if (action === 'dodge') {
+            const holdTime = slot.lDownTime !== null ? this.simTime - slot.lDownTime : 0;
+            if (slot.downed) {
+                // Held or tapped while down: nothing to do until a partner gets them up.
+            } else if (holdTime < 300 && p.dodgeCooldown <= 0 && p.state !== 'hurt') {
+                p.state = 'dodge';
+                p.stateTimer = 16;
+                p.vel.x = p.facing * 63;
+                p.dodgeCooldown = 35;
+                this.audio.playAsset('dodge');
+            } else if (holdTime >= 300 && p.dodgeCooldown <= 0 && (p.slowMoEnergy || 0) > 30) {
+                if (slot.decoy) this.noteMove('decoy', 'decoy_active');
+                else {
+                    this.noteMove('decoy');
+                    slot.decoy = {
+                        ...p,
+                        id: `decoy-${p.id}-${this.simTime}`,
+                        type: EntityType.DECOY,
+                        bloodOnBody: [],
+                        pos: { ...p.pos }
+                    };
+                    this.audio.playAsset('field_release', 0.8);
+                }
+            } else if (holdTime >= 300) {
+                this.noteMove('decoy', p.dodgeCooldown > 0 ? 'cooldown' : 'no_focus');
+            }
+            slot.lDownTime = null;
+        }
+        slot.processedKeys[action] = false;
+    }
+
+    // --- RENDER INTERPOLATION ---
+    private capturePrevPositions() {
+        const prev = this.prevPositions; prev.clear();
+        this.prevCamera = { x: this.cameraX, y: this.cameraY, zoom: this.cameraZoom };
+        this.slots.forEach(slot => {
+            prev.set(slot.entity.id, { ...slot.entity.pos });
+            if (slot.decoy) prev.set(slot.decoy.id, { ...slot.decoy.pos });
+        });
+        this.enemies.forEach(e => prev.set(e.id, { ...e.pos }));
+        this.bullets.forEach(b => prev.set(b.id, { ...b.pos }));
+    }
+
+    // --- CO-OP ---
+    private downPlayer(slot: PlayerSlot) {
+        const p = slot.entity;
+        if (p.state === 'spin_attack' || p.isSlowMoActive) this.audio.stopLoop('focus_loop');
+        slot.downed = true; slot.revive = 0; slot.decoy = null;
+        p.health = 0; p.state = 'hurt'; p.stateTimer = 0; p.isSlowMoActive = false;
+        this.cameraShake = 12;
+        this.audio.playAsset('die_player', 1, 1, p.pos);
+    }
+
+    /** A downed samurai only falls and waits; a standing partner close by fills the revive bar. */
+    private updateDowned(slot: PlayerSlot, dt: number) {
+        const p = slot.entity; const feetY = p.pos.y + p.height;
+        p.vel.x *= Math.pow(FRICTION, dt); p.pos.x += p.vel.x * dt; p.pos.y += p.vel.y * dt; p.vel.y += GRAVITY * dt;
+        resolveLanding(this.platforms, p, feetY);
+        const reviver = this.slots.find(other => !other.downed && other.entity.state !== 'hurt' && Math.abs(centerX(other.entity) - centerX(p)) < REVIVE_RANGE && Math.abs(other.entity.pos.y - p.pos.y) < REVIVE_RANGE);
+        slot.revive = reviver ? slot.revive + 1 : Math.max(0, slot.revive - REVIVE_DECAY);
+        if (slot.revive < REVIVE_TICKS) return;
+        slot.downed = false; slot.revive = 0;
+        p.health = p.maxHealth * REVIVE_HEALTH; p.state = 'idle'; slot.prevHealth = p.health;
+        this.addShockwave(centerX(p), feetY, 300); this.addParticles(centerX(p), p.pos.y + p.height / 2, '#fbbf24', 40, false, 2.0);
+        this.audio.playAsset('field_release', 1, 1.3, p.pos);
+    }
+
+    /** Keeps both samurai within MAX_PLAYER_SPREAD and zooms out far enough to show them both. */
+    private frameSlots() {
+        const [a, b] = this.slots.map(slot => slot.entity);
+        const gap = b.pos.x - a.pos.x;
+        if (Math.abs(gap) > MAX_PLAYER_SPREAD) {
+            // Each side gives up half the overshoot, so neither can drag the other along.
+            const dir = Math.sign(gap); const excess = (Math.abs(gap) - MAX_PLAYER_SPREAD) / 2;
+            a.pos.x += dir * excess; b.pos.x -= dir * excess;
+            if (a.vel.x * dir < 0) a.vel.x = 0;
+            if (b.vel.x * dir > 0) b.vel.x = 0;
+        }
+        const spreadX = Math.abs(b.pos.x - a.pos.x), spreadY = Math.abs(b.pos.y - a.pos.y);
+        this.cameraTargetZoom = Math.min(this.cameraTargetZoom, CANVAS_WIDTH / (spreadX + FRAME_MARGIN_X), CANVAS_HEIGHT / (spreadY + FRAME_MARGIN_Y));
+    }
+
+    // --- PLAYER ---
+    /** Cape, decoy trail, focus regen and the blood heal: everything a samurai does that isn't driven by input. */
+    private upkeepPlayer(slot: PlayerSlot, styleData: StyleData, now: number, dt: number) {
+        const p = slot.entity;
+        this.updateCape(p, dt);
+        if (slot.downed) return;
+        slot.actionHistory.push({ pos: { ...p.pos }, state: p.state, stateTimer: p.stateTimer, facing: p.facing, time: now });
+        if (slot.actionHistory.length > 300) slot.actionHistory.shift();
+
+        let recoveryRate = 3;
+        if (styleData.index >= 4) recoveryRate = 15;
+        else recoveryRate = 3 + (styleData.index * 3);
+
+        if (slot.decoy) {
+            p.slowMoEnergy = Math.max(0, (p.slowMoEnergy || 0) - (9 / 60) * dt);
+            if (p.slowMoEnergy <= 0) slot.decoy = null;
+            else {
+                const targetTime = now - 600;
+                let record: ActionRecord | null = null;
+                for (let i = slot.actionHistory.length - 1; i >= 0; i--) { if (slot.actionHistory[i].time <= targetTime) { record = slot.actionHistory[i]; break; } }
+                if (record) { slot.decoy.pos = { ...record.pos }; slot.decoy.state = record.state; slot.decoy.stateTimer = record.stateTimer; slot.decoy.facing = record.facing; }
+            }
+        } else { p.slowMoEnergy = Math.min(300, (p.slowMoEnergy || 0) + (recoveryRate / 60) * dt); }
+
+        if (p.bloodOnBody.length > 0) {
+            const healTotal = p.maxHealth * 0.05; const healPerFrame = (healTotal / 240) * dt;
+            p.bloodOnBody = p.bloodOnBody.filter(b => { p.health = Math.min(p.maxHealth, p.health + (healPerFrame / p.bloodOnBody.length)); b.life -= dt; return b.life > 0; });
+        }
+    }
+
+    private updateClash(slot: PlayerSlot) {
+        const p = slot.entity; const keys = slot.keys; const processedKeys = slot.processedKeys; const audio = this.audio;
+        p.isSlowMoActive = true; this.clashTimer -= 1; this.clashProgress -= CLASH_DRAIN_RATE;
+        const target = this.enemies.find(e => e.id === this.clashTargetId);
+        if (target) { const midX = (p.pos.x + target.pos.x) / 2; const midY = (p.pos.y + target.pos.y) / 2; this.cameraX += (midX - CANVAS_WIDTH / 2 - this.cameraX) * 0.15; this.cameraY += (midY - CANVAS_HEIGHT / 2 - this.cameraY) * 0.15; this.cameraTargetZoom = 1.6; }
+        if (keys.attack && !processedKeys['attack_clash']) { processedKeys['attack_clash'] = true; this.clashProgress += CLASH_GAIN_PER_TAP; this.cameraShake = 4; audio.playEnemyHit(false); this.addParticles(p.pos.x + p.facing * 80, p.pos.y + 40, '#fff', 4); }
+        if (!keys.attack) processedKeys['attack_clash'] = false;
+
+        if (this.clashProgress >= CLASH_WIN_THRESHOLD) {
+            this.changeState(GameState.PLAYING); audio.playAsset('clash_win'); audio.playAsset('explosion');
+            this.cameraShake = 20; this.addSwordPetals(p.pos.x + p.facing * 80, p.pos.y + p.height / 2);
+            this.enemies.forEach(e => {
+                e.lastHitBy = slot.index;
+                if (e.boss) { if (e.id === this.clashTargetId) { e.health -= e.maxHealth * 0.2; e.state = 'hurt'; e.stateTimer = 60; e.windup = 0; e.boss.move = null; e.vel.x = p.facing * 8; } }
+                else e.health = 0;
+            });
+            const rankInfo = this.styleOf(slot);
+            const targetIdx = Math.min(rankInfo.index + 2, STYLE_RANKS.length - 1);
+            slot.style.points = STYLE_RANKS[targetIdx].threshold;
+            this.addStyle(slot, 4000, 'clash_win');
+            this.stats.clashesWon++;
+            p.isSlowMoActive = false; this.hitStop = 40; this.clashCooldown = 45; p.vel.x = -p.facing * 6;
+        } else if (this.clashProgress <= 0 || this.clashTimer <= 0) {
+            this.changeState(GameState.PLAYING); audio.playAsset('clash_lose'); this.stats.clashesLost++; this.stats.damageTaken[slot.index] += Math.max(0, p.health - 1); p.health = 1; p.state = 'hurt'; p.stateTimer = 30; p.vel.x = -p.facing * 25; p.isSlowMoActive = false;
+            this.cameraShake = 8; this.clashCooldown = 60;
+            const rankInfo = this.styleOf(slot);
+            const targetIdx = Math.max(rankInfo.index - 2, 0);
+            slot.style.points = STYLE_RANKS[targetIdx].threshold;
+        }
+    }
+
+    /**
+     * Versus: swings that meet start a tap-off; otherwise a swing that reaches the other samurai lands on them, once.
+     * A held spin lands again every VERSUS_SPIN_INTERVAL ticks.
+     */
+    private updateDuel(attacking: boolean[], dmgMults: number[]) {
+        const [a, b] = this.slots; const ea = a.entity, eb = b.entity;
+        const dx = centerX(eb) - centerX(ea); const dy = Math.abs(ea.pos.y - eb.pos.y);
+        const facingOff = ea.facing === Math.sign(dx) && eb.facing === -Math.sign(dx);
+        if (attacking[0] && attacking[1] && facingOff && Math.abs(dx) < 240 && dy < 120 && ea.state !== 'spin_attack' && eb.state !== 'spin_attack' && this.clashCooldown <= 0) {
+            this.changeState(GameState.CLASHING); this.tapOff = true; this.clashProgress = TAP_OFF_START; this.clashTimer = TAP_OFF_TICKS; this.clashTargetId = eb.id; this.hitStop = 8;
+            return;
+        }
+        [[a, b], [b, a]].forEach(([striker, struck]) => {
+            if (!attacking[striker.index]) return;
+            const s = striker.entity, t = struck.entity; const tdx = centerX(t) - centerX(s);
+            const spin = s.state === 'spin_attack';
+            if (striker.landedAt !== null && !(spin && this.tick - striker.landedAt >= VERSUS_SPIN_INTERVAL)) return;
+            const inReach = spin ? Math.abs(tdx) < 280 && dy < 150 : Math.abs(tdx) < 150 && Math.sign(tdx) !== -s.facing && dy < 120;
+            if (!inReach || t.state === 'hurt' || t.state === 'dodge') return;
+            const damage = (spin ? VERSUS_SPIN_DAMAGE : VERSUS_HIT_DAMAGE) * dmgMults[striker.index];
+            t.health -= damage; this.stats.damageTaken[struck.index] += damage; t.state = 'hurt'; t.stateTimer = 18; striker.landedAt = this.tick;
+            if (s.state === 'launcher') t.vel.y = -12.5; else if (s.state === 'downward_strike') { t.vel.y = 15; this.cameraShake = 15; } else t.vel.x = (spin ? Math.sign(tdx) : s.facing) * 10;
+            this.hitStop = 8; this.audio.playEnemyHit(false, t.pos);
+            this.addParticles(centerX(t), t.pos.y + t.height / 2, COLORS.BLOOD, 30, true, 2.2);
+            this.addStyle(striker, s.state === 'launcher' ? 600 : s.state === 'downward_strike' ? 800 : 250, s.state);
+        });
+    }
+
+    private updateTapOff() {
+        const audio = this.audio; this.clashTimer -= 1;
+        const [a, b] = this.slots.map(slot => slot.entity);
+        const midX = (a.pos.x + b.pos.x) / 2; const midY = (a.pos.y + b.pos.y) / 2; this.cameraX += (midX - CANVAS_WIDTH / 2 - this.cameraX) * 0.15; this.cameraY += (midY - CANVAS_HEIGHT / 2 - this.cameraY) * 0.15; this.cameraTargetZoom = 1.6;
+        this.slots.forEach(slot => {
+            const p = slot.entity; const keys = slot.keys; const processedKeys = slot.processedKeys;
+            if (keys.attack && !processedKeys['attack_clash']) { processedKeys['attack_clash'] = true; this.clashProgress += slot.index === 0 ? TAP_OFF_PER_TAP : -TAP_OFF_PER_TAP; this.cameraShake = 4; audio.playEnemyHit(false); this.addParticles(p.pos.x + p.facing * 80, p.pos.y + 40, '#fff', 4); }
+            if (!keys.attack) processedKeys['attack_clash'] = false;
+        });
+        if (this.clashProgress > 0 && this.clashProgress < CLASH_WIN_THRESHOLD && this.clashTimer > 0) return;
+
+        this.changeState(GameState.PLAYING); this.tapOff = false; this.clashCooldown = 60; this.hitStop = 30;
+        const lead = this.clashProgress - TAP_OFF_START;
+        if (lead === 0) {
+            // Dead even: both are thrown apart and nobody takes damage.
+            audio.playAsset('clash_lose'); this.cameraShake = 8;
+            this.slots.forEach(slot => { slot.entity.state = 'hurt'; slot.entity.stateTimer = 30; slot.entity.vel.x = -slot.entity.facing * 25; });
+            return;
+        }
+        const winner = this.slots[lead > 0 ? 0 : 1]; const loser = this.slots[lead > 0 ? 1 : 0]; const l = loser.entity;
+        audio.playAsset('clash_win'); audio.playAsset('explosion'); this.cameraShake = 20;
+        this.addSwordPetals(winner.entity.pos.x + winner.entity.facing * 80, winner.entity.pos.y + winner.entity.height / 2);
+        l.health -= TAP_OFF_DAMAGE; this.stats.damageTaken[loser.index] += TAP_OFF_DAMAGE; l.state = 'hurt'; l.stateTimer = 30; l.vel.x = -l.facing * 25;
+        this.addStyle(winner, 4000, 'clash_win');
+        // Counted from player one's side, like the rest of the run stats.
+        if (winner.index === 0) this.stats.clashesWon++; else this.stats.clashesLost++;
+    }
+
+    /** One samurai's move for the tick: focus, specials, movement, physics and the props their swing breaks. */
+    private updatePlayer(slot: PlayerSlot, now: number, dt: number) {
+        const p = slot.entity; const keys = slot.keys; const processedKeys = slot.processedKeys; const audio = this.audio;
+        const isOnGround = isOnSurface(this.platforms, p);
+        const feetY = p.pos.y + p.height;
+
+        if (p.state === 'downward_strike' && isOnGround && !processedKeys['slam_hit_triggered']) {
+          processedKeys['slam_hit_triggered'] = true;
+          this.cameraShake = 45;
+          for (let i = 0; i < 60; i++) {
+              const rockColor = this.fxRng.next() > 0.6 ? '#4b5563' : (this.fxRng.next() > 0.5 ? '#374151' : '#1f2937');
+              this.particles.spawn(ParticleKind.DUST, rockColor, p.pos.x + p.width/2, feetY, (this.fxRng.next() - 0.5) * 65, -this.fxRng.next() * 55 - 25, 80 + this.fxRng.next() * 60, 140, 10 + this.fxRng.next() * 20);
+          }
+          this.addShockwave(p.pos.x + p.width/2, feetY, 900); this.addShockwave(p.pos.x + p.width/2, feetY, 600); this.addShockwave(p.pos.x + p.width/2, feetY, 350); this.addParticles(p.pos.x + p.width/2, feetY, '#fbbf24', 350, false, 8.0);
+          for(let i=0; i<50; i++) { this.addStreak(p.pos.x+p.width/2, feetY, (this.fxRng.next()-0.5)*180, -this.fxRng.next()*85, '#fff', 7.0); }
+          audio.playAsset('explosion', 2.5); audio.playAsset('slam_hit', 1.5);
+        } else if (p.state !== 'downward_strike') { processedKeys['slam_hit_triggered'] = false; }
+
+        if (isOnGround) p.airComboCount = 0;
+
+        if (keys.focus && !processedKeys['focus']) { processedKeys['focus'] = true; if (!p.isSlowMoActive && (p.slowMoEnergy || 0) > 5) { p.isSlowMoActive = true; audio.playAsset('focus_enter'); audio.startLoop('focus_loop'); } else { p.isSlowMoActive = false; audio.playAsset('focus_exit'); audio.stopLoop('focus_loop'); } }
+        const jPressed = keys.attack && !processedKeys['attack']; if (jPressed) processedKeys['attack'] = true;
+        const isDirectionalActive = keys.up || keys.down;
+
+        if (slot.jDownTime !== null && (now - slot.jDownTime > 450) && !isDirectionalActive && p.state !== 'spin_attack' && p.state !== 'hurt') {
+            const specStates = ['launcher', 'downward_strike', 'dash_attack'];
+            if ((p.slowMoEnergy || 0) <= 0) { if (!processedKeys['spin_noted']) { processedKeys['spin_noted'] = true; this.noteMove('spin_attack', 'no_focus'); } }
+            else if (!specStates.includes(p.state)) { p.state = 'spin_attack'; slot.landedAt = null; audio.playAsset('field_release'); audio.startLoop('focus_loop'); if (!processedKeys['spin_noted']) { processedKeys['spin_noted'] = true; this.noteMove('spin_attack'); } }
+        }
+
+        const isSpec = ['launcher', 'dash_attack', 'downward_strike', 'air_attack', 'spin_attack'].includes(p.state);
+        // Any samurai in a special or in focus pulls the camera in; the frame set-up afterwards still fits everyone.
+        if (isSpec || p.state === 'clash' || p.isSlowMoActive) this.cameraTargetZoom = this.userZoom * 1.3;
+
+        if (p.state !== 'hurt' && p.state !== 'clash') {
+            if (p.state === 'spin_attack') {
+                p.slowMoEnergy = Math.max(0, (p.slowMoEnergy || 0) - 1.5); if (p.slowMoEnergy <= 0 || !keys.attack) { p.state = 'idle'; p.stateTimer = 0; audio.stopLoop('focus_loop'); }
+                else {
+                    p.vel.x *= Math.pow(FRICTION, dt); if (Math.floor(now / 150) % 2 === 0 && !processedKeys['spin_sound']) { audio.playProceduralWhoosh(1.4); processedKeys['spin_sound'] = true; } else if (Math.floor(now / 150) % 2 !== 0) { processedKeys['spin_sound'] = false; }
+                    this.goreParts.forEach(g => { const dx = g.pos.x - (p.pos.x + p.width/2); const dy = g.pos.y - (p.pos.y + p.height/2); if (Math.sqrt(dx*dx + dy*dy) < 320) { if (!g.floatTimer || g.floatTimer <= 0) g.floatOriginY = g.pos.y; g.floatTimer = 60; g.isGrounded = false; } });
+                    if(this.fxRng.next() < 0.6) this.addStreak(p.pos.x+p.width/2, p.pos.y+p.height/2, (this.fxRng.next()-0.5)*150, (this.fxRng.next()-0.5)*150, '#fbbf24', 2.2);
+                }
+            } else {
+                if (!isSpec && p.state !== 'attack' && p.state !== 'dodge') {
+                    // A stick tilted part-way runs slower; keys and full tilt run at PLAYER_SPEED.
+                    const runSpeed = PLAYER_SPEED * Math.abs(keys.move ?? 1);
+                    if (keys.left) { p.vel.x = -runSpeed; p.facing = -1; p.state = 'run'; } else if (keys.right) { p.vel.x = runSpeed; p.facing = 1; p.state = 'run'; } else { p.vel.x *= Math.pow(FRICTION, dt); p.state = isOnGround ? 'idle' : 'jump'; }
+                    if ((keys.jump || keys.up) && !processedKeys['JumpKey'] && isOnGround) { p.vel.y = JUMP_FORCE; p.state = 'jump'; processedKeys['JumpKey'] = true; }
+                } else p.vel.x *= (p.state === 'dash_attack' ? Math.pow(0.95, dt) : (p.state === 'downward_strike' ? Math.pow(0.85, dt) : Math.pow(FRICTION, dt)));
+                if (!(keys.jump || keys.up)) processedKeys['JumpKey'] = false;
+                if (keys.down && !processedKeys['DropKey']) { processedKeys['DropKey'] = true; if (!keys.attack && platformUnder(this.platforms, p)) p.dropTimer = 14; }
+                if (!keys.down) processedKeys['DropKey'] = false;
+            }
+            if (jPressed && p.state !== 'dodge') {
+                // Every branch below starts a new swing, which hasn't landed on anyone yet.
+                slot.landedAt = null;
+                const history = slot.inputHistory; let leftDash = false, rightDash = false;
+                if (history.length >= 3) { const [h1, h2, h3] = history.slice(-3); if (now - h1.time < 1200) { if (h1.key === 'left' && h2.key === 'left' && h3.key === 'attack') leftDash = true; if (h1.key === 'right' && h2.key === 'right' && h3.key === 'attack') rightDash = true; } }
+                // Right keys, too slow: tell the training overlay the double-tap window ran out.
+                if (!leftDash && !rightDash && history.length >= 3) { const [h1, h2, h3] = history.slice(-3); if (h1.key === h2.key && (h1.key === 'left' || h1.key === 'right') && h3.key === 'attack') this.noteMove('dash_attack', 'dash_window'); }
+                if (leftDash || rightDash) {
+                    p.facing = leftDash ? -1 : 1; p.state = 'dash_attack'; p.stateTimer = 22; this.noteMove('dash_attack'); p.vel.x = p.facing * 55; audio.playAsset('dash_attack'); this.cameraShake = 15; this.addShockwave(p.pos.x, p.pos.y + p.height/2, 380);
+                    for (let i = 0; i < 70; i++) { this.addStreak(p.pos.x, p.pos.y + this.fxRng.next() * p.height, -p.facing * (60 + this.fxRng.next() * 150), (this.fxRng.next() - 0.5) * 35, '#fff', 3.5); }
+                }
+                else if (keys.up) { p.state = 'launcher'; p.stateTimer = 35; this.noteMove('launcher'); p.vel.y = -14.0; audio.playAsset('launch'); for(let i=0; i<25; i++) this.addStreak(p.pos.x+p.width/2, p.pos.y+40, (this.fxRng.next()-0.5)*30, -35-this.fxRng.next()*45, '#fbbf24', 2.8); }
+                else if (!isOnGround) { if (keys.down || p.airComboCount >= 3) { p.state = 'downward_strike'; p.stateTimer = 40; p.vel.y = 28; audio.playAsset('slam'); this.noteMove('downward_strike'); } else { p.state = 'air_attack'; p.stateTimer = 22; p.vel.y = -1.0; p.airComboCount++; audio.playPlayerAttack(); } }
+                else { p.state = 'attack'; p.stateTimer = ATTACK_DURATION; p.comboIndex = (p.comboIndex + 1) % 5; p.vel.x = p.facing * 4.0; audio.playPlayerAttack(); if (keys.down) this.noteMove('downward_strike', 'needs_air'); }
+            }
+        }
+
+        const effectiveDt = p.state === 'dash_attack' ? 1.0 : dt; p.pos.x += p.vel.x * effectiveDt; p.pos.y += p.vel.y * effectiveDt; p.vel.y += GRAVITY * dt;
+        resolveLanding(this.platforms, p, feetY);
+        if (p.dropTimer) p.dropTimer = Math.max(0, p.dropTimer - dt);
+        if (p.stateTimer > 0) { const timerDecay = p.state === 'dash_attack' ? 1.0 : dt; p.stateTimer -= timerDecay; if (p.stateTimer <= 0) p.state = isOnGround ? 'idle' : 'jump'; }
+        if (p.dodgeCooldown > 0) p.dodgeCooldown -= dt;
+
+        if (ATTACK_STATES.includes(p.state)) this.mapObjects.forEach(o => {
+            if (o.type !== 'plant' || o.isBroken) return;
+            const dx = (o.pos.x + o.width / 2) - (p.pos.x + p.width / 2); const dy = Math.abs((o.pos.y + o.height / 2) - (p.pos.y + p.height / 2));
+            const inSwing = p.state === 'spin_attack' ? Math.abs(dx) < 280 && dy < 150 : Math.abs(dx) < 150 && Math.sign(dx) !== -p.facing && dy < 120;
+            if (inSwing) this.breakProp(o, slot);
+        });
+        // Sword trail sparks for aerial and special swings (the grounded combo has its own arc).
+        [p, slot.decoy].forEach(ent => { if (ent && ['launcher', 'air_attack'].includes(ent.state) && this.fxRng.next() < 0.5) this.addStreak(ent.pos.x, ent.pos.y, (this.fxRng.next()-0.5)*50, (this.fxRng.next()-0.5)*50, '#fff', 1.5); });
+    }
+
+    /**
+     * Advances the world by exactly one SIM_TICK_MS tick. `inputs[i]` holds the actions player i held during that tick;
+     * a player without an entry holds nothing.
+     */
+    step(...inputs: InputFrame[]) {
+        this.capturePrevPositions();
+        if (this.state !== GameState.PLAYING && this.state !== GameState.CLASHING) return;
+        this.tick++;
+        this.simTime += SIM_TICK_MS;
+        this.stats.rankTicks[this.getStyleData().index]++;
+        this.slots.forEach((slot, i) => this.applyInput(slot, inputs[i] || {}));
+        if (this.hitStop > 0) { this.hitStop--; return; }
+
+        // One samurai in focus slows the whole world, partner included.
+        const now = this.simTime; const dt = this.slots.some(slot => slot.entity.isSlowMoActive) ? SLOW_MO_FACTOR : 1.0; const groundY = CANVAS_HEIGHT - 40;
+        const audio = this.audio;
+        // Rank effects for the tick use the rank each samurai started it at.
+        const styles = this.slots.map(slot => this.styleOf(slot));
+        this.slots.forEach((slot, i) => this.upkeepPlayer(slot, styles[i], now, dt));
+        const dmgMults = styles.map(styleData => styleData.index >= 7 ? 2.0 : styleData.index >= 4 ? 1.5 : 1.0);
+
+        if (this.clashCooldown > 0) this.clashCooldown--;
+
+        if (this.state === GameState.CLASHING) { if (this.tapOff) this.updateTapOff(); else this.updateClash(this.slots[this.clashSlot]); return; }
+
+        this.slots.forEach((slot, i) => {
+            const meter = slot.style; const styleData = styles[i];
+            // A shared meter drains once per tick, not once per samurai on it.
+            if (this.slots.findIndex(other => other.style === meter) === i && now - meter.lastAttackTime > 4000) {
+                const drop = ((STYLE_RANKS[styleData.index + 1]?.threshold || 1000) - STYLE_RANKS[styleData.index].threshold) * 0.5 / 60;
+                meter.points = Math.max(0, meter.points - drop * dt);
+            }
+            if (slot.entity.health < slot.prevHealth) {
+                const penalty = ((STYLE_RANKS[styleData.index + 1]?.threshold || 1000) - STYLE_RANKS[styleData.index].threshold) * 0.7;
+                meter.points = Math.max(0, meter.points - penalty);
+            }
+            slot.prevHealth = slot.entity.health;
+        });
+
+        if (this.cameraShake > 0) this.cameraShake -= 1.0;
+        if (this.killCombo > 0 && now - this.lastKillTime > 5000) this.killCombo = 0;
+
+        this.cameraZoom += (this.cameraTargetZoom - this.cameraZoom) * 0.1; this.cameraX += (this.focusX() - CANVAS_WIDTH / 2 - this.cameraX) * 0.1; this.cameraY += (this.focusY() - CANVAS_HEIGHT / 2 - this.cameraY) * 0.08;
+
+        this.cameraTargetZoom = this.userZoom;
+        this.slots.forEach(slot => { if (slot.downed) this.updateDowned(slot, dt); else this.updatePlayer(slot, now, dt); });
+        if (this.slots.length > 1) this.frameSlots();
+        const attacking = this.slots.map(slot => !slot.downed && ATTACK_STATES.includes(slot.entity.state));
+        if (this.mode === 'versus') this.updateDuel(attacking, dmgMults);
+        const focusX = this.focusX();
+
+        this.enemies = this.enemies.filter(e => {
+            const target = this.targetOf(e); const p = target.entity;
+            const pCenter = p.pos.x + p.width / 2, eCenter = e.pos.x + e.width / 2; const distAbs = Math.abs(pCenter - eCenter), verticalDist = Math.abs(p.pos.y - e.pos.y); const isBoss = e.type === EntityType.BOSS; const a = getArchetype(e.type);
+            const eOnSurface = isOnSurface(this.platforms, e);
+            if (e.state === 'hurt' && !eOnSurface) { const dx = pCenter - eCenter; e.vel.x += Math.sign(dx) * 0.22 * dt; e.vel.x *= Math.pow(0.95, dt); }
+            this.slots.forEach(slot => {
+                const s = slot.entity; if (s.state !== 'spin_attack') return;
+                const sCenter = centerX(s); const sDist = Math.abs(sCenter - eCenter), sVert = Math.abs(s.pos.y - e.pos.y);
+                if (sDist < (isBoss ? 380 : 280) && sVert < (isBoss ? 200 : 150)) { e.pos.x += (sCenter > eCenter ? 1 : -1) * (isBoss ? 1.8 : 6) * dt; if (Math.floor(now / 60) % 4 === 0) { e.health -= 12 * dmgMults[slot.index]; e.state = 'hurt'; e.stateTimer = 10; e.lastHitBy = slot.index; audio.playEnemyHit(true); this.addParticles(eCenter, e.pos.y + e.height / 2, COLORS.BLOOD, 4, true, 1.4); this.addStyle(slot, 80, 'spin'); } }
+            });
+            if (e.dummy && e.dummy !== 'attack') this.updateDummy(e, pCenter > eCenter ? 1 : -1);
+            else if (e.boss) this.updateBoss(e, p, distAbs, dt);
+            else if (e.state !== 'attack' && e.state !== 'hurt' && e.state !== 'clash' && e.windup <= 0) { e.facing = pCenter > eCenter ? 1 : -1; if (a.climbs && eOnSurface) this.pathToPlayer(e, p, distAbs); if (distAbs > a.range) { e.vel.x = e.facing * a.speed; e.state = 'run'; } else { e.vel.x = 0; e.state = 'idle'; if (e.attackCooldown-- <= 0) { e.windup = a.windup; } } }
+            if (!e.boss && e.windup > 0) { e.windup -= dt; if (e.windup <= 0) { e.state = 'attack'; e.stateTimer = a.attackDuration; e.attackCooldown = a.cooldown; if (a.ranged) this.bullets.push({ id: this.nextId('bullet'), pos: { x: e.pos.x + e.facing * 50, y: e.pos.y + 40 }, vel: { x: e.facing * BULLET_SPEED, y: 0 }, owner: 'enemy', radius: 15, isReflected: false, hitList: [] }); } }
+            const isEAttacking = e.state === 'attack' && !a.ranged && e.stateTimer > 12 && (!e.boss || (!!e.boss.move && MELEE_MOVES.includes(e.boss.move)));
+            // Each samurai's swing is checked in slot order; the first to clash with or land on this enemy takes the tick.
+            const engaged = this.slots.some(slot => {
+                if (!attacking[slot.index]) return false;
+                const s = slot.entity; const sDist = Math.abs(centerX(s) - eCenter), sVert = Math.abs(s.pos.y - e.pos.y);
+                if (isEAttacking && sDist < (isBoss ? 340 : 240) && sVert < (isBoss ? 200 : 120) && s.state !== 'spin_attack' && this.clashCooldown <= 0) { this.changeState(GameState.CLASHING); this.clashProgress = 40; this.clashTargetId = e.id; this.clashSlot = slot.index; this.hitStop = 8; return true; }
+                if (sDist < (isBoss ? 200 : 150) && sVert < (isBoss ? 180 : 120) && (e.state !== 'hurt' || e.stateTimer < 12) && s.state !== 'spin_attack') {
+                    const isLauncherHit = s.state === 'launcher'; const isSlamHit = s.state === 'downward_strike';
+                    let baseDamage = 45; if (a.frontalBlockDamage !== undefined && !isLauncherHit && !isSlamHit && e.facing !== s.facing) baseDamage = a.frontalBlockDamage;
+                    e.health -= baseDamage * dmgMults[slot.index]; e.lastHitBy = slot.index; e.state = 'hurt'; e.stateTimer = isLauncherHit ? 45 : 20; if (isLauncherHit) { e.vel.y = -12.5; } else if (isSlamHit) { e.vel.y = 15; this.cameraShake = 15; } else { e.vel.x = s.facing * (isBoss ? 0.6 : 3.5); } this.hitStop = isBoss ? 12 : 10; audio.playEnemyHit(false, e.pos);
+                    this.addParticles(eCenter, e.pos.y + e.height / 2, COLORS.BLOOD, 30, true, isBoss ? 2.5 : 2.2);
+                    if (!isBoss || this.fxRng.next() < 0.3) this.addWallSplatter(eCenter, e.pos.y + e.height / 2, isBoss);
+                    this.addStyle(slot, isLauncherHit ? 600 : (isSlamHit ? 800 : 250), s.state);
+                    return true;
+                }
+                return false;
+            });
+            if (!engaged && !target.downed && isEAttacking && distAbs < a.reach && verticalDist < a.reachY && p.state !== 'hurt' && p.state !== 'dodge') { p.health -= a.damage; this.stats.damageTaken[target.index] += a.damage; p.state = 'hurt'; p.stateTimer = 18; p.vel.x = e.facing * 12; audio.playEnemyHit(false); this.cameraShake = isBoss ? 10 : 4; }
+            const eFeetY = e.pos.y + e.height;
+            e.pos.x += e.vel.x * dt; e.pos.y += e.vel.y * dt; e.vel.y += GRAVITY * dt;
+            resolveLanding(this.platforms, e, eFeetY);
+            if (e.dropTimer) e.dropTimer = Math.max(0, e.dropTimer - dt); if (e.climbCooldown) e.climbCooldown = Math.max(0, e.climbCooldown - dt);
+            if (e.stateTimer > 0) { e.stateTimer -= dt; if (e.stateTimer <= 0) e.state = 'idle'; }
+            if (e.health <= 0) {
+                // The last samurai to hit it gets the heal and the style; a downed one only the style.
+                const killer = this.slots[e.lastHitBy ?? target.index] || target; const k = killer.entity;
+                const rankHeals = [15, 17, 19, 21, 23, 25, 26, 28, 30];
+                const healPercent = isBoss ? 25 : (rankHeals[styles[killer.index].index] || 15);
+                if (!killer.downed) k.health = Math.min(k.maxHealth, k.health + healPercent);
+
+                this.stats.killsByType[e.type] = (this.stats.killsByType[e.type] || 0) + 1; if (isBoss) this.stats.bossesKilled++;
+                this.score += isBoss ? 10 : 1; this.kills++; this.killCombo++; this.stats.longestCombo = Math.max(this.stats.longestCombo, this.killCombo); this.lastKillTime = now; this.hooks.onScoreUpdate(this.score); if (isBoss) { const currentRankData = this.styleOf(killer); const nextLevelIdx = currentRankData.index + 1; const nextLevelThreshold = STYLE_RANKS[Math.min(nextLevelIdx, STYLE_RANKS.length - 1)].threshold; killer.style.points = Math.max(killer.style.points, nextLevelThreshold); this.addStyle(killer, 500, 'boss_kill_bonus'); } else { this.addStyle(killer, 1500, 'kill'); } this.cameraShake = isBoss ? 30 : 6;
+                // BOSS DEATH: Explosive blood explosion
+                this.addParticles(eCenter, e.pos.y + e.height / 2, COLORS.BLOOD, isBoss ? 380 : 70, true, isBoss ? 5.5 : 4.0);
+                this.addWallSplatter(eCenter, e.pos.y - 100, isBoss);
+                // BOSS DEATH: Scaled gore parts
+                this.spawnGore(e, isBoss ? 2.5 : 1.0);
+                if (!killer.downed) this.addBloodToPlayer(k); isBoss ? audio.playAsset('boss_death', 1, 1, e.pos) : audio.playEnemyDeath(e.pos); return false;
+            }
+            return true;
+        });
+
+        const bulletDist = (b: Bullet, s: Entity) => Math.sqrt(Math.pow(b.pos.x - (s.pos.x + 22), 2) + Math.pow(b.pos.y - (s.pos.y + 42), 2));
+        this.bullets = this.bullets.filter(b => {
+            b.pos.x += b.vel.x * dt; b.pos.y += b.vel.y * dt;
+            if (b.kind === 'shockwave') {
+                const struck = this.slots.find(slot => { const s = slot.entity; return !slot.downed && Math.abs(b.pos.x - centerX(s)) < b.radius + s.width / 2 && s.pos.y + s.height >= groundY - 30 && s.state !== 'dodge' && s.state !== 'hurt'; });
+                if (struck) { const s = struck.entity; s.health -= 25; this.stats.damageTaken[struck.index] += 25; s.state = 'hurt'; s.stateTimer = 20; s.vel.y = -4; this.cameraShake = 10; audio.playEnemyHit(false); return false; }
+                if (this.fxRng.next() < 0.5) this.addParticles(b.pos.x, groundY, '#f87171', 2, false, 1.5);
+                return Math.abs(b.pos.x - focusX) < 2000;
+            }
+            if (hitsPlatform(this.platforms, b.pos.x, b.pos.y)) { this.addParticles(b.pos.x, b.pos.y, '#fbbf24', 12, false, 1.2); return false; }
+            this.mapObjects.forEach(o => { if (o.type === 'plant' && !o.isBroken && b.pos.x > o.pos.x && b.pos.x < o.pos.x + o.width && b.pos.y > o.pos.y) this.breakProp(o, this.slots[b.parriedBy ?? 0]); });
+            if (b.owner === 'enemy') {
+                const parrier = this.slots.find(slot => attacking[slot.index] && bulletDist(b, slot.entity) < 150);
+                if (parrier) { b.owner = 'player'; b.vel.x *= -5.2; b.isReflected = true; b.parriedBy = parrier.index; audio.playAsset('reflect'); this.hitStop = 14; this.cameraShake = 10; this.addStyle(parrier, 500, 'parry'); this.stats.parries++; return true; }
+                const struck = this.slots.find(slot => !slot.downed && bulletDist(b, slot.entity) < 50 && slot.entity.state !== 'dodge' && slot.entity.state !== 'hurt');
+                if (struck) { const s = struck.entity; s.health -= 20; this.stats.damageTaken[struck.index] += 20; s.state = 'hurt'; s.stateTimer = 20; return false; }
+            }
+            else if (b.owner === 'player' && b.isReflected) {
+                const parrier = this.slots[b.parriedBy ?? 0];
+                this.enemies.forEach(e => { if (b.hitList.includes(e.id)) return; const eCenter = e.pos.x + e.width / 2; const eMidY = e.pos.y + e.height / 2; const d = Math.sqrt(Math.pow(b.pos.x - eCenter, 2) + Math.pow(b.pos.y - eMidY, 2)); if (d < 75) { if (e.type !== EntityType.BOSS) e.health = 0; else e.health -= 400 * dmgMults[parrier.index]; e.lastHitBy = parrier.index; b.hitList.push(e.id); this.addParticles(eCenter, eMidY, COLORS.BLOOD, 50, true, 3.2); this.addStyle(parrier, 200, 'reflect_hit'); } });
+            }
+            return Math.abs(b.pos.x - focusX) < 2000;
+        });
+
+        this.birds = this.birds.filter(b => { b.pos.x += b.vel.x * dt; b.pos.y += b.vel.y * dt; b.flapPhase += b.flapSpeed * dt; return Math.abs(b.pos.x - focusX) < CANVAS_WIDTH * 2; });
+        this.goreParts = this.goreParts.filter(g => { const isOffArea = Math.abs(g.pos.x - focusX) > CANVAS_WIDTH * 2; if (isOffArea) { g.offscreenTimer += dt; if (g.offscreenTimer > 480) return false; } else { g.offscreenTimer = 0; } if (g.floatTimer && g.floatTimer > 0) { g.floatTimer -= dt; g.pos.y = (g.floatOriginY || g.pos.y) - 40 + Math.sin(now / 200) * 10; g.vel.y = 0; g.vel.x *= 0.95; } else { if (!g.isGrounded) { const floorY = g.vel.y >= 0 ? surfaceBelow(this.platforms, g) : groundY; g.pos.x += g.vel.x * dt; g.pos.y += g.vel.y * dt; g.vel.y += GRAVITY * dt; g.rotation += g.rotVel * dt; if (g.pos.y > floorY - g.height) { g.pos.y = floorY - g.height; g.vel.y *= -0.35; g.vel.x *= 0.7; if (Math.abs(g.vel.y) < 1.0) { g.isGrounded = true; g.vel.y = 0; g.vel.x = 0; g.rotVel = 0; } } } } return true; });
+        this.particles.update(dt, groundY, focusX);
+
+        if (this.stage) this.updateStage(this.stage);
+        else if (this.training) this.updateTraining(this.training);
+        else if (this.mode !== 'versus' && this.spawnTimer-- <= 0) { this.spawnEnemy(); this.spawnTimer = 140 + this.rng.next() * 50; }
+        if (this.fxRng.next() < 0.005) { this.spawnBird(); }
+        this.peakStyleIndex = Math.max(this.peakStyleIndex, ...this.slots.map(slot => this.styleOf(slot).index));
+        // Solo, 0 HP ends the run. In co-op it downs that samurai, and the run ends only when nobody is left standing.
+        // In versus the first to fall loses.
+        if (this.mode === 'versus') {
+            const standing = this.slots.filter(slot => slot.entity.health > 0);
+            if (standing.length < this.slots.length) { this.winner = standing.length === 1 ? standing[0].index : null; this.changeState(GameState.GAME_OVER); }
+            return;
+        }
+        if (this.slots.length > 1) this.slots.forEach(slot => { if (!slot.downed && slot.entity.health <= 0) this.downPlayer(slot); });
+        if (this.slots.every(slot => slot.entity.health <= 0)) this.changeState(GameState.GAME_OVER);
+    }
+}
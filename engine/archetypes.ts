@@ -0,0 +1,66 @@
+import { EntityType } from '../types';
+
+export type EnemyWeapon = 'sword' | 'lance' | 'gun' | 'greatsword';
+
+/**
+ * Everything the simulation needs to know about one kind of enemy. Distances are in world pixels,
+ * timings in 60 Hz ticks.
+ */
+export interface EnemyArchetype {
+    type: EntityType;
+    health: number;
+    width: number;
+    height: number;
+    color: string;
+    weapon: EnemyWeapon;
+    /** Chase speed while out of range. */
+    speed: number;
+    /** Distance at which the enemy stops chasing and starts its windup. */
+    range: number;
+    /** Horizontal and vertical distance at which a melee swing hits the player. */
+    reach: number;
+    reachY: number;
+    windup: number;
+    attackDuration: number;
+    cooldown: number;
+    damage: number;
+    /** Relative chance of being picked by the regular spawner; 0 keeps the type out of random spawns. */
+    spawnWeight: number;
+    /** Jumps onto platforms and drops through them to reach the player. */
+    climbs: boolean;
+    /** Fires a bullet when the windup ends instead of swinging. */
+    ranged?: boolean;
+    /** Damage taken from plain slashes to the front; launchers, slams and hits from behind go through. */
+    frontalBlockDamage?: number;
+}
+
+const BASE = { width: 45, height: 85, weapon: 'sword', speed: 2.1, reach: 100, reachY: 100, windup: 16, attackDuration: 40, cooldown: 140, damage: 12, climbs: true } as const;
+
+// Spawn order matters: the regular spawner walks this list with one roll, so keep it stable for replays.
+export const ENEMY_ARCHETYPES: EnemyArchetype[] = [
+    { ...BASE, type: EntityType.ENEMY_GUN, health: 100, color: '#111', weapon: 'gun', range: 450, windup: 70, spawnWeight: 35, ranged: true },
+    { ...BASE, type: EntityType.ENEMY_STRIKER, health: 60, color: '#3b0a45', speed: 3.8, range: 120, cooldown: 60, spawnWeight: 15 },
+    { ...BASE, type: EntityType.ENEMY_DEFENDER, health: 220, color: '#2a3b4c', width: 55, height: 95, speed: 1.2, range: 100, damage: 25, spawnWeight: 20, frontalBlockDamage: 5 },
+    { ...BASE, type: EntityType.ENEMY_LANCER, health: 110, color: '#0a452a', weapon: 'lance', range: 240, reach: 260, spawnWeight: 15 },
+    { ...BASE, type: EntityType.ENEMY_SWORD, health: 100, color: '#111', range: 95, spawnWeight: 15 },
+    { ...BASE, type: EntityType.BOSS, health: 1400, color: '#1a0505', weapon: 'greatsword', width: 110, height: 210, speed: 1.2, range: 200, reach: 180, reachY: 150, windup: 50, attackDuration: 50, cooldown: 160, damage: 35, spawnWeight: 0, climbs: false }
+];
+
+const BY_TYPE = new Map(ENEMY_ARCHETYPES.map(a => [a.type, a]));
+
+export const getArchetype = (type: EntityType): EnemyArchetype => {
+    const archetype = BY_TYPE.get(type);
+    if (!archetype) throw new Error(`No enemy archetype for entity type ${EntityType[type]}`);
+    return archetype;
+};
+
+/** Picks a spawnable archetype with a single roll in [0, 1). */
+export const pickArchetype = (roll: number): EnemyArchetype => {
+    const spawnable = ENEMY_ARCHETYPES.filter(a => a.spawnWeight > 0);
+    let remaining = roll * spawnable.reduce((sum, a) => sum + a.spawnWeight, 0);
+    for (const archetype of spawnable) {
+        if (remaining < archetype.spawnWeight) return archetype;
+        remaining -= archetype.spawnWeight;
+    }
+    return spawnable[spawnable.length - 1];
+};
@@ -0,0 +1,60 @@
+import { BossMove } from '../types';
+
+export const BOSS_NAME = 'RONIN WARLORD';
+export const BOSS_INTRO_TICKS = 150;
+
+export interface BossMoveDef {
+    windup: number;
+    duration: number;
+    cooldown: number;
+    /** Distance band to the player in which the move may be chosen. */
+    minRange: number;
+    maxRange: number;
+}
+
+export const BOSS_MOVES: Record<BossMove, BossMoveDef> = {
+    swing: { windup: 50, duration: 50, cooldown: 160, minRange: 0, maxRange: 200 },
+    lunge: { windup: 40, duration: 28, cooldown: 140, minRange: 250, maxRange: 700 },
+    shockwave: { windup: 60, duration: 30, cooldown: 170, minRange: 0, maxRange: 900 },
+    volley: { windup: 45, duration: 30, cooldown: 150, minRange: 300, maxRange: 1000 },
+    summon: { windup: 70, duration: 40, cooldown: 220, minRange: 0, maxRange: 1400 }
+};
+
+// Moves that swing the blade: only these hurt on contact and can start a clash.
+export const MELEE_MOVES: BossMove[] = ['swing', 'lunge'];
+
+export interface BossPhase {
+    /** The phase starts once health drops to this fraction of max health. */
+    below: number;
+    /** Relative weights of the moves available in this phase. */
+    moves: Partial<Record<BossMove, number>>;
+    speed: number;
+    cooldownScale: number;
+    volleyCount: number;
+}
+
+export const BOSS_PHASES: BossPhase[] = [
+    { below: 1, moves: { swing: 3, lunge: 2, volley: 1 }, speed: 1.2, cooldownScale: 1, volleyCount: 3 },
+    { below: 0.66, moves: { swing: 2, lunge: 2, shockwave: 2, volley: 1, summon: 1 }, speed: 1.6, cooldownScale: 0.8, volleyCount: 5 },
+    { below: 0.33, moves: { swing: 2, lunge: 3, shockwave: 2, volley: 2, summon: 1 }, speed: 2.2, cooldownScale: 0.6, volleyCount: 7 }
+];
+
+export const phaseFor = (health: number, maxHealth: number) => {
+    const ratio = health / maxHealth;
+    let phase = 0;
+    BOSS_PHASES.forEach((p, i) => { if (ratio <= p.below) phase = i; });
+    return phase;
+};
+
+/** Weighted pick among the phase's moves that fit the current distance; null when none does. */
+export const chooseMove = (phase: BossPhase, distance: number, roll: number): BossMove | null => {
+    const options = (Object.keys(phase.moves) as BossMove[]).filter(m => distance >= BOSS_MOVES[m].minRange && distance <= BOSS_MOVES[m].maxRange);
+    const total = options.reduce((sum, m) => sum + (phase.moves[m] || 0), 0);
+    let remaining = roll * total;
+    for (const move of options) {
+        const weight = phase.moves[move] || 0;
+        if (remaining < weight) return move;
+        remaining -= weight;
+    }
+    return null;
+};
@@ -0,0 +1,54 @@
+import { Entity, InputAction, InputFrame, ActionRecord } from '../types';
+
+/** `shared` puts both samurai on one style meter; `split` gives each their own rank, damage bonus and focus regen. */
+export type StyleSharing = 'shared' | 'split';
+
+export const STYLE_SHARINGS: StyleSharing[] = ['shared', 'split'];
+
+export const MAX_PLAYERS = 2;
+
+export interface StyleMeter {
+    points: number;
+    lastSkillUsed: string | null;
+    /** Sim time of the last style gain; the meter starts draining 4 s after it. */
+    lastAttackTime: number;
+}
+
+export const createStyleMeter = (): StyleMeter => ({ points: 0, lastSkillUsed: null, lastAttackTime: 0 });
+
+/** One samurai and everything read from its controller: held keys, press timing and the decoy's action trail. */
+export interface PlayerSlot {
+    index: number;
+    entity: Entity;
+    decoy: Entity | null;
+    style: StyleMeter;
+    keys: InputFrame;
+    processedKeys: { [key: string]: boolean };
+    inputHistory: { key: InputAction, time: number }[];
+    jDownTime: number | null;
+    lDownTime: number | null;
+    actionHistory: ActionRecord[];
+    prevHealth: number;
+    /** Co-op only: at 0 HP a samurai goes down instead of ending the run, until a partner revives them. */
+    downed: boolean;
+    /** Ticks a partner has spent standing over this downed samurai, up to REVIVE_TICKS. */
+    revive: number;
+    /** Versus: the tick this samurai's current swing landed on the other one, or null while it hasn't. */
+    landedAt: number | null;
+}
+
+// A partner standing within REVIVE_RANGE of a downed samurai for REVIVE_TICKS brings them back at REVIVE_HEALTH.
+// Stepping away drains the progress at REVIVE_DECAY per tick instead of resetting it.
+export const REVIVE_TICKS = 180;
+export const REVIVE_RANGE = 140;
+export const REVIVE_DECAY = 2;
+export const REVIVE_HEALTH = 0.4;
+
+// The camera zooms out to keep both samurai in frame, so they are leashed to stay within MAX_PLAYER_SPREAD.
+export const MAX_PLAYER_SPREAD = 1600;
+export const FRAME_MARGIN_X = 500;
+export const FRAME_MARGIN_Y = 360;
+
+/** Where each samurai enters, and the base hue of their cape (player one gold, player two cyan). */
+export const SPAWN_X = [200, 80];
+export const CAPE_HUES = [45, 185];
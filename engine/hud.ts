@@ -0,0 +1,73 @@
+import { CLASH_WIN_THRESHOLD, MAX_FOCUS } from '../constants';
+import { GameState } from '../types';
+import { WorldSnapshot, PlayerView } from './GameWorld';
+
+/** Player two's meters in co-op. */
+export interface PartnerHud {
+    health: number;
+    maxHealth: number;
+    focus: number;
+    /** Revive progress, 0..1, while downed; null when standing. */
+    revive: number | null;
+    /** Their own style rank when style is split; null when it is shared. */
+    rank: number | null;
+}
+
+/**
+ * What the React HUD shows. Values are rounded so two ticks that look the same on screen compare equal,
+ * which keeps the HUD from re-rendering at the frame rate.
+ */
+export interface HudState {
+    health: number;
+    maxHealth: number;
+    /** Focus gauge fill, 0..1. */
+    focus: number;
+    /** Style rank index into STYLE_RANKS. */
+    rank: number;
+    /** Progress towards the next rank, 0..1. */
+    rankProgress: number;
+    combo: number;
+    /** Clash meter fill, 0..1, while a clash is on; null otherwise. */
+    clash: number | null;
+    /** The clash is a versus tap-off, so `clash` is player one's share of the meter and the rest is player two's. */
+    tapOff: boolean;
+    /** Player one's revive progress, 0..1, while downed in co-op; null otherwise. */
+    revive: number | null;
+    partner: PartnerHud | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const reviveOf = (view: PlayerView) => view.downed ? round2(view.revive) : null;
+
+const partnerOf = (s: WorldSnapshot): PartnerHud | null => {
+    const view = s.players[1];
+    if (!view) return null;
+    return {
+        health: Math.max(0, Math.ceil(view.entity.health)),
+        maxHealth: view.entity.maxHealth,
+        focus: round2(Math.max(0, (view.entity.slowMoEnergy || 0) / MAX_FOCUS)),
+        revive: reviveOf(view),
+        rank: s.styleSharing === 'split' ? view.style.index : null
+    };
+};
+
+export const hudStateOf = (s: WorldSnapshot): HudState => ({
+    health: Math.max(0, Math.ceil(s.player.health)),
+    maxHealth: s.player.maxHealth,
+    focus: round2(Math.max(0, (s.player.slowMoEnergy || 0) / MAX_FOCUS)),
+    rank: s.style.index,
+    rankProgress: round2(s.style.progress),
+    combo: s.killCombo,
+    clash: s.state === GameState.CLASHING ? round2(Math.max(0, Math.min(1, s.clashProgress / CLASH_WIN_THRESHOLD))) : null,
+    tapOff: s.tapOff,
+    revive: reviveOf(s.players[0]),
+    partner: partnerOf(s)
+});
+
+const samePartner = (a: PartnerHud | null, b: PartnerHud | null) =>
+    a === b || (!!a && !!b && a.health === b.health && a.maxHealth === b.maxHealth && a.focus === b.focus && a.revive === b.revive && a.rank === b.rank);
+
+export const sameHud = (a: HudState, b: HudState) =>
+    a.health === b.health && a.maxHealth === b.maxHealth && a.focus === b.focus && a.rank === b.rank &&
+    a.rankProgress === b.rankProgress && a.combo === b.combo && a.clash === b.clash && a.tapOff === b.tapOff && a.revive === b.revive && samePartner(a.partner, b.partner);
@@ -0,0 +1,89 @@
+import { MapObject } from '../types';
+import { CANVAS_HEIGHT } from '../constants';
+import { Rng } from './rng';
+
+export const GROUND_Y = CANVAS_HEIGHT - 40;
+export const PLATFORM_THICKNESS = 16;
+// Feet within this many pixels of a surface count as standing on it.
+const SURFACE_SNAP = 2;
+
+/** Anything that falls and lands: entities, gore. `pos` is the top-left corner. */
+interface Body {
+    pos: { x: number, y: number };
+    vel: { x: number, y: number };
+    width: number;
+    height: number;
+    dropTimer?: number;
+}
+
+const overlapsX = (o: MapObject, x: number, width: number) => x + width > o.pos.x && x < o.pos.x + o.width;
+
+/**
+ * Lays out the street: one-way platforms at jumping height and breakable plants on the pavement, over the same
+ * span the graffiti covers. Uses its own stream so level layout never shifts gameplay rolls.
+ */
+export const generateMapObjects = (rng: Rng): MapObject[] => {
+    const objects: MapObject[] = [];
+    let id = 0;
+    for (let segment = -70; segment < 140; segment++) {
+        const segmentX = segment * 900;
+        // Keep the spawn area flat so every run starts the same way.
+        if (Math.abs(segmentX) < 900) continue;
+        if (rng.next() < 0.55) {
+            const width = 220 + rng.int(4) * 60;
+            const tiers = rng.next() < 0.3 ? 2 : 1;
+            for (let tier = 0; tier < tiers; tier++) {
+                const x = segmentX + rng.next() * 400 + tier * (width * 0.6);
+                objects.push({ id: `platform-${++id}`, type: 'platform', pos: { x, y: GROUND_Y - 170 - tier * 140 }, width, height: PLATFORM_THICKNESS });
+            }
+        }
+        const plants = rng.int(3);
+        for (let i = 0; i < plants; i++) {
+            const height = 60 + rng.next() * 50;
+            objects.push({ id: `plant-${++id}`, type: 'plant', pos: { x: segmentX + rng.next() * 850, y: GROUND_Y - height }, width: 36 + rng.next() * 24, height, isBroken: false });
+        }
+    }
+    return objects.sort((a, b) => a.pos.x - b.pos.x);
+};
+
+export const platformsOf = (objects: readonly MapObject[]) => objects.filter(o => o.type === 'platform');
+
+/** The platform the body stands on, or null when it is on the ground or airborne. */
+export const platformUnder = (platforms: readonly MapObject[], body: Body): MapObject | null => {
+    if ((body.dropTimer || 0) > 0 || body.vel.y < 0) return null;
+    const feet = body.pos.y + body.height;
+    return platforms.find(o => overlapsX(o, body.pos.x, body.width) && Math.abs(feet - o.pos.y) <= SURFACE_SNAP) || null;
+};
+
+export const isOnSurface = (platforms: readonly MapObject[], body: Body) =>
+    body.pos.y >= GROUND_Y - body.height - SURFACE_SNAP || platformUnder(platforms, body) !== null;
+
+/** Height of the surface the body's feet are on or above: the nearest platform top below it, or the ground. */
+export const surfaceBelow = (platforms: readonly MapObject[], body: Body) => {
+    const feet = body.pos.y + body.height;
+    let best = GROUND_Y;
+    platforms.forEach(o => { if (overlapsX(o, body.pos.x, body.width) && o.pos.y >= feet - SURFACE_SNAP && o.pos.y < best) best = o.pos.y; });
+    return best;
+};
+
+/**
+ * Settles a body after it moved this tick. Falling bodies land on the first platform top their feet crossed
+ * (unless dropping through); everything stops on the ground. Returns true when the body ends up on a surface.
+ */
+export const resolveLanding = (platforms: readonly MapObject[], body: Body, prevFeet: number): boolean => {
+    const feet = body.pos.y + body.height;
+    if (body.vel.y >= 0 && !((body.dropTimer || 0) > 0)) {
+        for (const o of platforms) {
+            if (overlapsX(o, body.pos.x, body.width) && prevFeet <= o.pos.y + SURFACE_SNAP && feet >= o.pos.y) {
+                body.pos.y = o.pos.y - body.height; body.vel.y = 0;
+                return true;
+            }
+        }
+    }
+    if (feet > GROUND_Y) { body.pos.y = GROUND_Y - body.height; body.vel.y = 0; return true; }
+    return false;
+};
+
+/** True when a point is inside a platform slab (bullets stop there). */
+export const hitsPlatform = (platforms: readonly MapObject[], x: number, y: number) =>
+    platforms.some(o => x >= o.pos.x && x <= o.pos.x + o.width && y >= o.pos.y && y <= o.pos.y + o.height);
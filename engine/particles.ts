@@ -0,0 +1,135 @@
+import { GRAVITY } from '../constants';
+
+/** What a particle is, which decides how it moves, how it is drawn and what it may push out of a full pool. */
+export enum ParticleKind {
+    /** Sparks, dust, rock chips: plain falling squares. */
+    DUST,
+    /** Airborne blood spray; recoloured by the gore setting. */
+    BLOOD,
+    /** Heavy blood that falls faster and pools where it lands. */
+    LIQUID,
+    /** Sword streaks and petals; dimmed by reduce-flashes. */
+    STREAK,
+    /** Expanding ground ring; `size` is its final radius. */
+    SHOCKWAVE,
+}
+
+const KIND_COUNT = 5;
+
+// Higher survives a full pool. Blood is what sells a hit, so it outranks the dust and sparks that fill most of the budget.
+const KIND_PRIORITY = [0, 2, 2, 1, 3];
+const PRIORITY_LEVELS = 4;
+
+/** Particles alive at once across the whole world. Past it, a new particle replaces one of lower or equal priority, or is dropped. */
+export const PARTICLE_BUDGET = 2500;
+// Particles this far from the camera focus are culled.
+const CULL_RANGE = 2000;
+// Distinct colour strings the pool tracks. The game uses a couple of dozen; anything past this draws in the first colour.
+const MAX_COLORS = 64;
+
+/**
+ * Every cosmetic particle in the world, stored as parallel typed arrays so spawning and culling never allocate.
+ * Live particles are packed into `[0, count)`; a dead one is replaced by the last, so order is not spawn order.
+ * Nothing in here feeds back into gameplay, so it may differ between two peers or a replay and its recording.
+ */
+export class ParticlePool {
+    count = 0;
+    readonly x = new Float32Array(PARTICLE_BUDGET);
+    readonly y = new Float32Array(PARTICLE_BUDGET);
+    readonly vx = new Float32Array(PARTICLE_BUDGET);
+    readonly vy = new Float32Array(PARTICLE_BUDGET);
+    readonly life = new Float32Array(PARTICLE_BUDGET);
+    readonly maxLife = new Float32Array(PARTICLE_BUDGET);
+    readonly size = new Float32Array(PARTICLE_BUDGET);
+    readonly kind = new Uint8Array(PARTICLE_BUDGET);
+    /** Index into `palette`. */
+    readonly color = new Uint8Array(PARTICLE_BUDGET);
+    readonly palette: string[] = [];
+    /** Particle indices grouped by batch, filled by `forEachBatch`. */
+    readonly order = new Uint16Array(PARTICLE_BUDGET);
+
+    private paletteIndex = new Map<string, number>();
+    private perPriority = new Int32Array(PRIORITY_LEVELS);
+    private evictCursor = 0;
+    private batchEnds = new Int32Array(KIND_COUNT * MAX_COLORS + 1);
+
+    private colorIndex(color: string) {
+        let index = this.paletteIndex.get(color);
+        if (index === undefined) {
+            if (this.palette.length === MAX_COLORS) return 0;
+            index = this.palette.length; this.palette.push(color); this.paletteIndex.set(color, index);
+        }
+        return index;
+    }
+
+    // Slot to overwrite when the pool is full: one holding the lowest priority present, as long as that is no higher than
+    // `priority`. The cursor keeps walking between calls, so a burst replaces particles across the pool, not one slot over and over.
+    private victim(priority: number) {
+        let lowest = 0;
+        while (lowest < priority && this.perPriority[lowest] === 0) lowest++;
+        if (this.perPriority[lowest] === 0) return -1;
+        for (;;) {
+            const i = this.evictCursor;
+            this.evictCursor = (i + 1) % PARTICLE_BUDGET;
+            if (KIND_PRIORITY[this.kind[i]] === lowest) return i;
+        }
+    }
+
+    /** Adds one particle. Positional rather than an options object so a 400-particle burst allocates nothing. False if it was dropped. */
+    spawn(kind: ParticleKind, color: string, x: number, y: number, vx: number, vy: number, life: number, maxLife: number, size: number) {
+        let i = this.count;
+        if (i === PARTICLE_BUDGET) {
+            i = this.victim(KIND_PRIORITY[kind]);
+            if (i < 0) return false;
+            this.perPriority[KIND_PRIORITY[this.kind[i]]]--;
+        } else this.count++;
+        this.x[i] = x; this.y[i] = y; this.vx[i] = vx; this.vy[i] = vy;
+        this.life[i] = life; this.maxLife[i] = maxLife; this.size[i] = size;
+        this.kind[i] = kind; this.color[i] = this.colorIndex(color);
+        this.perPriority[KIND_PRIORITY[kind]]++;
+        return true;
+    }
+
+    private remove(i: number) {
+        this.perPriority[KIND_PRIORITY[this.kind[i]]]--;
+        const last = --this.count;
+        if (i === last) return;
+        this.x[i] = this.x[last]; this.y[i] = this.y[last]; this.vx[i] = this.vx[last]; this.vy[i] = this.vy[last];
+        this.life[i] = this.life[last]; this.maxLife[i] = this.maxLife[last]; this.size[i] = this.size[last];
+        this.kind[i] = this.kind[last]; this.color[i] = this.color[last];
+    }
+
+    /** Moves, ages and culls every particle. Liquid blood settles on `groundY` and spreads. */
+    update(dt: number, groundY: number, focusX: number) {
+        for (let i = 0; i < this.count;) {
+            const kind = this.kind[i];
+            this.x[i] += this.vx[i] * dt; this.y[i] += this.vy[i] * dt;
+            if (kind === ParticleKind.LIQUID) {
+                this.vy[i] += GRAVITY * 2.5 * dt;
+                if (this.y[i] >= groundY) { this.y[i] = groundY; this.vx[i] *= 0.3; this.vy[i] = 0; this.size[i] *= 1.08; }
+            } else if (kind !== ParticleKind.SHOCKWAVE) this.vy[i] += GRAVITY * dt;
+            this.life[i] -= dt;
+            if (this.life[i] > 0 && Math.abs(this.x[i] - focusX) < CULL_RANGE) i++;
+            else this.remove(i);
+        }
+    }
+
+    /**
+     * Groups the live particles by kind, then colour, so the renderer sets its style once per group. Fills `order` and calls
+     * `draw` with each group's slice of it, kinds in enum order (shockwaves last, on top).
+     */
+    forEachBatch(draw: (kind: ParticleKind, color: string, start: number, end: number) => void) {
+        // Counting sort on kind * MAX_COLORS + colour: count, prefix-sum into starts, then place, which leaves each entry at its batch's end.
+        const ends = this.batchEnds;
+        ends.fill(0);
+        for (let i = 0; i < this.count; i++) ends[this.kind[i] * MAX_COLORS + this.color[i] + 1]++;
+        for (let key = 1; key < ends.length; key++) ends[key] += ends[key - 1];
+        for (let i = 0; i < this.count; i++) this.order[ends[this.kind[i] * MAX_COLORS + this.color[i]]++] = i;
+        let start = 0;
+        for (let key = 0; key < ends.length - 1; key++) {
+            const end = ends[key];
+            if (end > start) draw(Math.floor(key / MAX_COLORS), this.palette[key % MAX_COLORS], start, end);
+            start = end;
+        }
+    }
+}
@@ -0,0 +1,127 @@
+import { GameState, GameMode, InputAction, InputFrame } from '../types';
+import { SIM_TICK_RATE, MOVE_STEPS } from '../constants';
+import { GameWorld, WorldHooks } from './GameWorld';
+import { StyleSharing } from './coop';
+
+// Bumped whenever the simulation changes in a way old recordings can't reproduce (2: level geometry, 3: boss phases).
+export const REPLAY_VERSION = 3;
+
+// Bit order of the per-tick input mask. Append new actions at the end so older replays keep decoding.
+// Matches the A, D, W, S, Space, J, K, L key order the first replays were recorded with.
+export const REPLAY_ACTIONS: InputAction[] = ['left', 'right', 'up', 'down', 'jump', 'attack', 'focus', 'dodge'];
+// Above the actions, how many MOVE_STEPS the stick fell short of full tilt. Zero is full tilt, so keyboard input and
+// masks recorded before analog movement decode unchanged.
+const MOVE_BITS = 4;
+/** Bits one player's input takes up in a mask. */
+export const INPUT_BITS = REPLAY_ACTIONS.length + MOVE_BITS;
+
+export interface ReplayResult {
+    ticks: number;
+    score: number;
+    stylePoints: number;
+}
+
+/**
+ * A recorded run: the seed plus one input mask per simulated tick, run-length encoded as
+ * `[mask, tickCount]` pairs. Playing the frames back into a world with the same seed reproduces the run exactly.
+ * In co-op each tick's mask holds every player's input, player `i` in bits `i * INPUT_BITS` upward.
+ */
+export interface Replay {
+    version: number;
+    seed: number;
+    tickRate: number;
+    recordedAt: string;
+    /** Missing in replays recorded before stage mode existed; those are endless runs. */
+    mode?: GameMode;
+    stageId?: string;
+    /** Both missing in solo replays. */
+    players?: number;
+    styleSharing?: StyleSharing;
+    frames: [number, number][];
+    result?: ReplayResult;
+}
+
+export const encodeInput = (input: InputFrame): number => {
+    const mask = REPLAY_ACTIONS.reduce((mask, action, bit) => input[action] ? mask | (1 << bit) : mask, 0);
+    return input.move === undefined ? mask : mask | (MOVE_STEPS - Math.round(Math.abs(input.move) * MOVE_STEPS)) << REPLAY_ACTIONS.length;
+};
+
+// The tilt's sign isn't stored: it points whichever way the frame holds.
+export const decodeInput = (mask: number): InputFrame => {
+    const input: InputFrame = {};
+    REPLAY_ACTIONS.forEach((action, bit) => { if (mask & (1 << bit)) input[action] = true; });
+    const short = (mask >> REPLAY_ACTIONS.length) & ((1 << MOVE_BITS) - 1);
+    if (short) input.move = (input.left ? -1 : 1) * (MOVE_STEPS - short) / MOVE_STEPS;
+    return input;
+};
+
+/** Live ticks consume input; menu and game-over ticks do not and are never recorded. */
+export const isRecordedState = (state: GameState) => state === GameState.PLAYING || state === GameState.CLASHING;
+
+export class ReplayRecorder {
+    private frames: [number, number][] = [];
+
+    constructor(readonly seed: number, readonly mode: GameMode = 'endless', readonly stageId?: string, readonly players = 1, readonly styleSharing: StyleSharing = 'shared') {}
+
+    record(...inputs: InputFrame[]) {
+        const mask = inputs.reduce((packed, input, i) => packed + encodeInput(input) * 2 ** (i * INPUT_BITS), 0);
+        const last = this.frames[this.frames.length - 1];
+        if (last && last[0] === mask) last[1]++;
+        else this.frames.push([mask, 1]);
+    }
+
+    finish(world: GameWorld): Replay {
+        return {
+            version: REPLAY_VERSION, seed: this.seed, tickRate: SIM_TICK_RATE, recordedAt: new Date().toISOString(),
+            mode: this.mode, stageId: this.stageId, ...(this.players > 1 ? { players: this.players, styleSharing: this.styleSharing } : {}),
+            frames: this.frames.map(([mask, count]) => [mask, count]),
+            result: { ticks: world.tick, score: world.score, stylePoints: world.stylePoints }
+        };
+    }
+}
+
+export class ReplayPlayer {
+    private frameIndex = 0;
+    private used = 0;
+
+    constructor(readonly replay: Replay) {}
+
+    get done() { return this.frameIndex >= this.replay.frames.length; }
+
+    /** Each player's input for the next live tick, or null once the recording has run out. */
+    next(): InputFrame[] | null {
+        const frame = this.replay.frames[this.frameIndex];
+        if (!frame) return null;
+        if (++this.used >= frame[1]) { this.frameIndex++; this.used = 0; }
+        const span = 2 ** INPUT_BITS;
+        return Array.from({ length: this.replay.players ?? 1 }, (_, i) => decodeInput(Math.floor(frame[0] / span ** i) % span));
+    }
+}
+
+/** True when the world ended exactly where the recording did. Replays without a result cannot be checked. */
+export const matchesResult = (replay: Replay, world: GameWorld) => {
+    const r = replay.result;
+    return !!r && r.ticks === world.tick && r.score === world.score && r.stylePoints === world.stylePoints;
+};
+
+export const serializeReplay = (replay: Replay) => JSON.stringify(replay);
+
+export const parseReplay = (text: string): Replay => {
+    const data = JSON.parse(text);
+    if (!data || typeof data.seed !== 'number' || !Array.isArray(data.frames)) throw new Error('Not a replay file');
+    if (data.version !== REPLAY_VERSION) throw new Error(`Unsupported replay version ${data.version}`);
+    if (data.tickRate !== SIM_TICK_RATE) throw new Error(`Replay recorded at ${data.tickRate} Hz, engine runs at ${SIM_TICK_RATE} Hz`);
+    return data as Replay;
+};
+
+/** Plays a replay to the end without rendering and returns the final world, e.g. to verify a shared run under Node. */
+export const runReplay = (replay: Replay, hooks: Partial<WorldHooks> = {}): GameWorld => {
+    const world = new GameWorld(hooks, { seed: replay.seed, mode: replay.mode, stageId: replay.stageId, players: replay.players, styleSharing: replay.styleSharing });
+    const player = new ReplayPlayer(replay);
+    while (isRecordedState(world.state)) {
+        const inputs = player.next();
+        if (!inputs) break;
+        world.step(...inputs);
+    }
+    return world;
+};
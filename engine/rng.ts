@@ -0,0 +1,32 @@
+/**
+ * Small seedable PRNG (mulberry32). Every gameplay roll goes through one of these so a run is fully
+ * determined by its seed plus the per-tick input.
+ */
+export class Rng {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /** Uniform float in [0, 1), drop-in for Math.random(). */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    /** Integer in [0, max). */
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+
+    pick<T>(items: readonly T[]): T {
+        return items[this.int(items.length)];
+    }
+}
+
+/** Fresh 32-bit seed for a new run; the only place allowed to use Math.random(). */
+export const randomSeed = () => Math.floor(Math.random() * 4294967296) >>> 0;
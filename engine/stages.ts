@@ -0,0 +1,138 @@
+import { EntityType } from '../types';
+import { Rng } from './rng';
+
+export type SpawnSide = 'left' | 'right' | 'both' | 'random';
+
+/** `count` enemies of one type, the first `delay` ticks into the wave and then one every `interval` ticks. */
+export interface SpawnGroup {
+    type: EntityType;
+    count: number;
+    side: SpawnSide;
+    delay?: number;
+    interval?: number;
+}
+
+/**
+ * When a wave counts as cleared: `all` once every enemy it spawned is dead, `bosses` once its bosses are dead
+ * (stragglers carry into the next wave), `survive` after the given number of ticks.
+ */
+export type ClearCondition = { kind: 'all' } | { kind: 'bosses' } | { kind: 'survive', ticks: number };
+
+export interface Wave {
+    /** Pause before the wave starts, in ticks after the previous one cleared. */
+    delay: number;
+    groups: SpawnGroup[];
+    clear: ClearCondition;
+}
+
+export interface StageScript {
+    id: string;
+    name: string;
+    waves: Wave[];
+}
+
+export interface SpawnRequest {
+    type: EntityType;
+    /** -1 spawns left of the player, 1 to the right. */
+    side: number;
+}
+
+const ALL: ClearCondition = { kind: 'all' };
+
+export const STAGES: StageScript[] = [
+    {
+        id: 'neon-district',
+        name: 'NEON DISTRICT',
+        waves: [
+            { delay: 90, clear: ALL, groups: [{ type: EntityType.ENEMY_SWORD, count: 4, side: 'both', interval: 90 }] },
+            { delay: 120, clear: ALL, groups: [
+                { type: EntityType.ENEMY_GUN, count: 2, side: 'random', interval: 150 },
+                { type: EntityType.ENEMY_STRIKER, count: 3, side: 'both', delay: 120, interval: 60 }
+            ] },
+            { delay: 120, clear: ALL, groups: [
+                { type: EntityType.ENEMY_DEFENDER, count: 2, side: 'both', interval: 60 },
+                { type: EntityType.ENEMY_LANCER, count: 2, side: 'random', delay: 180, interval: 120 },
+                { type: EntityType.ENEMY_GUN, count: 1, side: 'random', delay: 300 }
+            ] },
+            { delay: 120, clear: { kind: 'survive', ticks: 60 * 45 }, groups: [
+                { type: EntityType.ENEMY_SWORD, count: 6, side: 'both', interval: 200 },
+                { type: EntityType.ENEMY_STRIKER, count: 4, side: 'random', delay: 100, interval: 300 },
+                { type: EntityType.ENEMY_GUN, count: 4, side: 'random', delay: 400, interval: 400 },
+                { type: EntityType.ENEMY_DEFENDER, count: 2, side: 'both', delay: 900, interval: 600 }
+            ] },
+            { delay: 180, clear: { kind: 'bosses' }, groups: [
+                { type: EntityType.BOSS, count: 1, side: 'random' },
+                { type: EntityType.ENEMY_GUN, count: 2, side: 'both', delay: 600, interval: 600 }
+            ] }
+        ]
+    }
+];
+
+export const getStage = (id: string): StageScript => {
+    const stage = STAGES.find(s => s.id === id);
+    if (!stage) throw new Error(`Unknown stage ${id}`);
+    return stage;
+};
+
+interface ScheduledSpawn extends SpawnRequest {
+    at: number;
+}
+
+/** Walks a stage script tick by tick and says what to spawn; the world owns the actual enemies. */
+export class StageRunner {
+    waveIndex = -1;
+    private waveTick = 0;
+    private queue: ScheduledSpawn[] = [];
+    private spawnedIds: string[] = [];
+    private bossIds: string[] = [];
+
+    constructor(readonly stage: StageScript, private readonly rng: Rng) {
+        this.startWave(0);
+    }
+
+    get cleared() { return this.waveIndex >= this.stage.waves.length; }
+
+    get wave(): Wave | undefined { return this.stage.waves[this.waveIndex]; }
+
+    private startWave(index: number) {
+        this.waveIndex = index;
+        this.waveTick = 0;
+        this.spawnedIds = [];
+        this.bossIds = [];
+        const wave = this.wave;
+        if (!wave) return;
+        this.queue = [];
+        wave.groups.forEach(group => {
+            for (let i = 0; i < group.count; i++) {
+                const side = group.side === 'left' ? -1 : group.side === 'right' ? 1 : group.side === 'both' ? (i % 2 === 0 ? -1 : 1) : (this.rng.next() > 0.5 ? 1 : -1);
+                this.queue.push({ type: group.type, side, at: wave.delay + (group.delay || 0) + i * (group.interval || 0) });
+            }
+        });
+        this.queue.sort((a, b) => a.at - b.at);
+    }
+
+    /** Spawns due this tick. `room` caps how many may enter now; the rest wait for a free slot. */
+    due(room: number): SpawnRequest[] {
+        const ready: SpawnRequest[] = [];
+        while (this.queue.length && this.queue[0].at <= this.waveTick && ready.length < room) ready.push(this.queue.shift()!);
+        return ready;
+    }
+
+    /** Called by the world with the id of every enemy it spawned from `due()`. */
+    track(id: string, type: EntityType) {
+        this.spawnedIds.push(id);
+        if (type === EntityType.BOSS) this.bossIds.push(id);
+    }
+
+    /** Advances one tick. `alive` is the set of enemy ids still on the field. */
+    update(alive: Set<string>) {
+        const wave = this.wave;
+        if (!wave) return;
+        this.waveTick++;
+        const clear = wave.clear;
+        const done = clear.kind === 'survive' ? this.waveTick >= wave.delay + clear.ticks
+            : clear.kind === 'bosses' ? this.bossIds.length > 0 && this.bossIds.every(id => !alive.has(id))
+            : this.queue.length === 0 && this.spawnedIds.every(id => !alive.has(id));
+        if (done) this.startWave(this.waveIndex + 1);
+    }
+}
@@ -0,0 +1,28 @@
+import { EntityType } from '../types';
+import { STYLE_RANKS } from './style';
+
+/** Everything counted over one run, for the game-over and victory breakdown. */
+export interface RunStats {
+    killsByType: Partial<Record<EntityType, number>>;
+    bossesKilled: number;
+    /** Enemy bullets sent back with a sword swing. */
+    parries: number;
+    clashesWon: number;
+    clashesLost: number;
+    /** Ticks spent at each style rank, indexed like STYLE_RANKS. */
+    rankTicks: number[];
+    longestCombo: number;
+    /** Damage each player took, indexed by slot, so versus shows each side's rather than both added together. */
+    damageTaken: number[];
+}
+
+export const createRunStats = (players = 1): RunStats => ({
+    killsByType: {}, bossesKilled: 0, parries: 0, clashesWon: 0, clashesLost: 0,
+    rankTicks: STYLE_RANKS.map(() => 0), longestCombo: 0, damageTaken: new Array(players).fill(0)
+});
+
+/** Time-weighted mean style rank index; 0 for a run that never ticked. */
+export const averageRankIndex = (stats: RunStats) => {
+    const total = stats.rankTicks.reduce((sum, ticks) => sum + ticks, 0);
+    return total > 0 ? stats.rankTicks.reduce((sum, ticks, i) => sum + ticks * i, 0) / total : 0;
+};
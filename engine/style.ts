@@ -0,0 +1,35 @@
+export const STYLE_RANKS = [
+    { name: 'D', threshold: 0 },
+    { name: 'C', threshold: 1000 },
+    { name: 'B', threshold: 2500 },
+    { name: 'A', threshold: 5000 },
+    { name: 'S', threshold: 8500 },
+    { name: 'SS', threshold: 13000 },
+    { name: 'SSS', threshold: 19000 },
+    { name: 'OMG', threshold: 27000 },
+    { name: 'GOD', threshold: 38000 }
+];
+
+export type StyleRank = typeof STYLE_RANKS[number];
+
+export interface StyleData {
+    current: StyleRank;
+    progress: number;
+    index: number;
+}
+
+export const getStyleData = (points: number): StyleData => {
+    let current = STYLE_RANKS[0];
+    let next = STYLE_RANKS[1];
+    let index = 0;
+    for (let i = 0; i < STYLE_RANKS.length; i++) {
+        if (points >= STYLE_RANKS[i].threshold) {
+            current = STYLE_RANKS[i];
+            next = STYLE_RANKS[i+1] || STYLE_RANKS[i];
+            index = i;
+        }
+    }
+    const range = next.threshold - current.threshold;
+    const progress = range === 0 ? 1.0 : (points - current.threshold) / range;
+    return { current, progress, index };
+};
@@ -0,0 +1,45 @@
+import { EntityType } from '../types';
+
+/** What a training dummy does: stand still, fight with its normal AI, or only shoot from where it stands. */
+export type DummyBehavior = 'idle' | 'attack' | 'shoot';
+
+export const DUMMY_BEHAVIORS: DummyBehavior[] = ['idle', 'attack', 'shoot'];
+
+export const DUMMY_TYPES: EntityType[] = [
+    EntityType.ENEMY_SWORD, EntityType.ENEMY_GUN, EntityType.ENEMY_STRIKER,
+    EntityType.ENEMY_DEFENDER, EntityType.ENEMY_LANCER, EntityType.BOSS
+];
+
+export const MAX_DUMMIES = 4;
+
+export interface TrainingConfig {
+    dummyType: EntityType;
+    behavior: DummyBehavior;
+    /** Dummies kept on the field; killed ones come back after DUMMY_RESPAWN_TICKS. */
+    count: number;
+    infiniteHealth: boolean;
+    infiniteFocus: boolean;
+}
+
+export const defaultTrainingConfig = (): TrainingConfig => ({
+    dummyType: EntityType.ENEMY_SWORD, behavior: 'idle', count: 1, infiniteHealth: true, infiniteFocus: true
+});
+
+export const DUMMY_RESPAWN_TICKS = 90;
+// Ticks between shots for dummies set to 'shoot'.
+export const DUMMY_FIRE_INTERVAL = 100;
+
+/** The specials listed on the guide screen, plus the decoy on held dodge. */
+export type SpecialMove = 'dash_attack' | 'launcher' | 'downward_strike' | 'spin_attack' | 'decoy';
+
+/** Why an attempted special came out as something else, or not at all. */
+export type MissReason = 'dash_window' | 'needs_air' | 'no_focus' | 'cooldown' | 'decoy_active';
+
+export interface MoveFeedback {
+    /** Sim time of the attempt, in ms. */
+    time: number;
+    move: SpecialMove;
+    missed?: MissReason;
+}
+
+export const MOVE_LOG_SIZE = 6;
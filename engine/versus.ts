@@ -0,0 +1,20 @@
+/**
+ * Versus: two samurai and no enemies. Swings land on the other player, matching swings lock both into a tap-off,
+ * and the first to drop the other wins the run.
+ */
+
+/** Where each samurai enters a duel; player two starts across the street, facing player one. */
+export const VERSUS_SPAWN_X = [200, 900];
+
+export const VERSUS_HIT_DAMAGE = 12;
+// A swing lands once. The spin is held instead, and lands again every VERSUS_SPIN_INTERVAL ticks for as long as it
+// reaches, so each of its hits is worth much less than a swing.
+export const VERSUS_SPIN_DAMAGE = 4;
+export const VERSUS_SPIN_INTERVAL = 30;
+
+// The tap-off meter starts level. Player one's taps push it up, player two's push it down; whoever reaches their
+// end first wins, and when time runs out the side ahead takes it.
+export const TAP_OFF_START = 50;
+export const TAP_OFF_PER_TAP = 5;
+export const TAP_OFF_TICKS = 300;
+export const TAP_OFF_DAMAGE = 25;
@@ -0,0 +1,70 @@
+import en from './locales/en';
+import zh from './locales/zh';
+import ja from './locales/ja';
+import es from './locales/es';
+import { isRecord } from '../storage/storage';
+
+export type Messages = typeof en;
+
+type DeepPartial<T> = { [K in keyof T]?: T[K] extends object ? DeepPartial<T[K]> : T[K] };
+
+/** What a locale file provides. Anything missing is shown in English. */
+export type LocaleMessages = DeepPartial<Messages>;
+
+export interface Locale {
+    /** The language's own name for itself, shown on the language button. */
+    name: string;
+    messages: LocaleMessages;
+}
+
+/** Every shipped language, keyed by its primary BCP 47 subtag. A new language is one file plus one line here. */
+export const LOCALES: { [code: string]: Locale } = {
+    en: { name: 'English', messages: en },
+    zh: { name: '中文', messages: zh },
+    ja: { name: '日本語', messages: ja },
+    es: { name: 'Español', messages: es }
+};
+
+export const FALLBACK_LOCALE = 'en';
+
+export const LOCALE_CODES = Object.keys(LOCALES);
+
+export const isLocale = (code: unknown): code is string => typeof code === 'string' && Object.prototype.hasOwnProperty.call(LOCALES, code);
+
+/** First language in the browser's preference list that we ship, matched on the primary subtag (zh-TW plays in zh). */
+export const detectLocale = (preferred: readonly string[] = typeof navigator !== 'undefined' ? (navigator.languages?.length ? navigator.languages : [navigator.language]) : []) => {
+    for (const tag of preferred) {
+        const primary = (tag || '').toLowerCase().split('-')[0];
+        if (isLocale(primary)) return primary;
+    }
+    return FALLBACK_LOCALE;
+};
+
+// Walks the English table and takes each entry from `over` where it has one of the same type, so a locale that is
+// missing a key, or has a string where a group belongs, still ends up with every message.
+const fillMissing = (base: unknown, over: unknown): unknown => {
+    if (!isRecord(base)) return typeof over === typeof base ? over : base;
+    const table = isRecord(over) ? over : {};
+    const merged: Record<string, unknown> = {};
+    Object.keys(base).forEach(key => { merged[key] = fillMissing(base[key], table[key]); });
+    return merged;
+};
+
+const withFallback = (messages: LocaleMessages): Messages => fillMissing(en, messages) as Messages;
+
+const resolved = new Map<string, Messages>();
+
+/** The full message table for a locale, with the keys it leaves out taken from the fallback locale. */
+export const messagesFor = (code: string): Messages => {
+    const locale = isLocale(code) ? code : FALLBACK_LOCALE;
+    let messages = resolved.get(locale);
+    if (!messages) {
+        messages = withFallback(LOCALES[locale].messages);
+        resolved.set(locale, messages);
+    }
+    return messages;
+};
+
+/** Fills `{name}` placeholders. Unknown placeholders are left in place so a missing value is visible, not silently blank. */
+export const interpolate = (template: string, values: { [name: string]: string | number }) =>
+    template.replace(/\{(\w+)\}/g, (match, name) => name in values ? String(values[name]) : match);
@@ -0,0 +1,119 @@
+// The reference locale: every key lives here, and any key another locale leaves out falls back to this text.
+const en = {
+    op: "By__LicseL",
+    title: "PIXEL SAMURAI",
+    kills: "DATA_CORRUPTED",
+    init: "START MISSION",
+    died: "DISCONNECTED",
+    honor: "Connection Terminated",
+    retry: "RESTORE HONOR",
+    menu: "BACK TO MENU",
+    guide: "GUIDE",
+    subtitle: "By__LicseL",
+    bgmOn: "BGM: ON",
+    bgmOff: "BGM: OFF",
+    saveReplay: "SAVE REPLAY",
+    loadReplay: "LOAD REPLAY",
+    replayBadge: "REPLAY",
+    replayVerified: "REPLAY VERIFIED",
+    replayDesync: "REPLAY DESYNC",
+    replayInvalid: "INVALID REPLAY FILE",
+    endless: "ENDLESS MODE",
+    victory: "STAGE CLEAR",
+    victorySub: "The District Falls Silent",
+    time: "TIME",
+    peakRank: "PEAK RANK",
+    avgRank: "AVG RANK",
+    longestCombo: "BEST STREAK",
+    bossesKilled: "BOSSES",
+    parries: "PARRIES",
+    clashes: "CLASHES W/L",
+    damageTaken: "DAMAGE TAKEN",
+    rankTime: "TIME PER RANK",
+    playAgain: "PLAY AGAIN",
+    records: "RECORDS",
+    newRecord: "NEW HIGH SCORE",
+    rankedAt: "RANKED #{rank}",
+    hp: "HP",
+    focus: "FOCUS",
+    zoom: "ZOOM",
+    style: "STYLE",
+    combo: "KILL STREAK",
+    rankUp: "RANK UP",
+    mash: "MASH {key}!",
+    paused: "PAUSED",
+    resume: "RESUME",
+    restart: "RESTART",
+    settings: "SETTINGS",
+    quit: "QUIT TO MENU",
+    noRecords: "NO RUNS YET",
+    score: "SCORE",
+    date: "DATE",
+    modeStage: "STAGE",
+    modeEndless: "ENDLESS",
+    controls: "CONTROLS",
+    pressKey: "PRESS A KEY...",
+    resetBindings: "RESET DEFAULTS",
+    gamepadHint: "GAMEPAD: STICK / D-PAD MOVE · A JUMP · X ATTACK · Y FOCUS · B DODGE · FLICK ↑ / ↓ FOR SPECIALS",
+    solo: "1P SOLO",
+    coop: "2P CO-OP",
+    styleShared: "SHARED STYLE",
+    styleSplit: "SPLIT STYLE",
+    player1: "P1",
+    player2: "P2",
+    downed: "DOWN — STAND CLOSE TO REVIVE",
+    coopTag: "2P",
+    coopPadHint: "CO-OP: THE FIRST GAMEPAD PLAYS P2, ANY OTHER PLAYS P1",
+    versus: "VERSUS",
+    tapOff: "TAP-OFF! MASH {key}!",
+    versusWins: "{player} WINS",
+    versusDraw: "DOUBLE KO",
+    online: "ONLINE",
+    relayUrl: "RELAY",
+    hostRoom: "HOST A ROOM",
+    joinRoom: "JOIN",
+    roomCode: "ROOM CODE",
+    youAre: "YOU ARE {player}",
+    roomWaiting: "WAITING FOR P2 TO JOIN...",
+    roomReady: "P2 IS IN — READY",
+    roomWaitingHost: "WAITING FOR THE HOST TO START...",
+    startRun: "START",
+    netWaiting: "WAITING FOR PARTNER...",
+    netPeerPaused: "THE OTHER PLAYER PAUSED",
+    netErrors: { unreachable: "CAN'T REACH THE RELAY", no_room: "NO ROOM WITH THAT CODE", room_full: "THAT ROOM IS FULL", bad_message: "THE RELAY REJECTED A MESSAGE", peer_left: "THE OTHER PLAYER LEFT", lost: "LOST THE CONNECTION TO THE RELAY", desync: "GAMES OUT OF SYNC — RUN STOPPED" },
+    training: "TRAINING",
+    dummy: "DUMMY",
+    behavior: "BEHAVIOR",
+    dummyCount: "COUNT",
+    infiniteHealth: "INFINITE HP",
+    infiniteFocus: "INFINITE FOCUS",
+    behaviors: { idle: "IDLE", attack: "ATTACK", shoot: "SHOOT" },
+    enemies: { ENEMY_SWORD: "SWORDSMAN", ENEMY_GUN: "GUNNER", ENEMY_STRIKER: "STRIKER", ENEMY_DEFENDER: "DEFENDER", ENEMY_LANCER: "LANCER", BOSS: "WARLORD" },
+    moves: { dash_attack: "DASH ATTACK", launcher: "LAUNCHER", downward_strike: "AIR SLAM", spin_attack: "FORCE FIELD", decoy: "DECOY" },
+    misses: { dash_window: "DOUBLE-TAP WINDOW EXPIRED", needs_air: "SLAM ONLY WORKS IN THE AIR", no_focus: "NOT ENOUGH FOCUS", cooldown: "DODGE ON COOLDOWN", decoy_active: "DECOY ALREADY OUT" },
+    audio: "AUDIO",
+    mute: "MUTE",
+    muted: "MUTED",
+    resetAudio: "RESET LEVELS",
+    audioAssets: "SOUNDS: {loaded} RECORDED · {synthesized} SYNTHESIZED · {missing} SILENT",
+    accessibility: "ACCESSIBILITY",
+    shake: "SCREEN SHAKE",
+    particles: "PARTICLES",
+    reduceFlashes: "REDUCE FLASHES",
+    on: "ON",
+    off: "OFF",
+    gore: "GORE",
+    goreStyles: { blood: "BLOOD", sparks: "SPARKS", off: "OFF" },
+    colorblind: "COLOR FILTER",
+    colorblindModes: { none: "DEFAULT", protanopia: "PROTANOPIA", deuteranopia: "DEUTERANOPIA", tritanopia: "TRITANOPIA" },
+    resetAccessibility: "RESET OPTIONS",
+    renderer: "RENDERER",
+    renderers: { auto: "AUTO", webgl: "WEBGL", canvas: "CANVAS" },
+    channels: { master: "MASTER", music: "MUSIC", sfx: "EFFECTS", ui: "INTERFACE", ambience: "AMBIENCE" },
+    actions: { left: "MOVE LEFT", right: "MOVE RIGHT", up: "UP / LAUNCH", down: "DOWN / SLAM", jump: "JUMP", attack: "ATTACK", focus: "FOCUS", dodge: "DODGE / DECOY" },
+    guideTitle: "- COMBAT GUIDE -",
+    guideInputs: { launcher: "{up} + {attack}", dash_attack: "{left}{left} / {right}{right} + {attack}", spin_attack: "HOLD {attack}", downward_strike: "AIR + {down} + {attack}", decoy: "HOLD {dodge}" },
+    guideNotes: { heal: "• HEALING: 15% HP PER KILL", parry: "• PARRY: +1 STYLE RANK", clash: "• CLASH: WIN +2 | LOSE -2 RANKS" }
+};
+
+export default en;
@@ -0,0 +1,118 @@
+import { LocaleMessages } from '../index';
+
+const es: LocaleMessages = {
+    title: "SAMURÁI PÍXEL",
+    kills: "DATOS_BORRADOS",
+    init: "INICIAR MISIÓN",
+    died: "DESCONECTADO",
+    honor: "Conexión terminada",
+    retry: "RECUPERAR EL HONOR",
+    menu: "VOLVER AL MENÚ",
+    guide: "GUÍA",
+    bgmOn: "MÚSICA: SÍ",
+    bgmOff: "MÚSICA: NO",
+    saveReplay: "GUARDAR REPETICIÓN",
+    loadReplay: "CARGAR REPETICIÓN",
+    replayBadge: "REPETICIÓN",
+    replayVerified: "REPETICIÓN VERIFICADA",
+    replayDesync: "REPETICIÓN DESINCRONIZADA",
+    replayInvalid: "ARCHIVO DE REPETICIÓN NO VÁLIDO",
+    endless: "MODO INFINITO",
+    victory: "NIVEL SUPERADO",
+    victorySub: "El distrito queda en silencio",
+    time: "TIEMPO",
+    peakRank: "RANGO MÁXIMO",
+    avgRank: "RANGO MEDIO",
+    longestCombo: "MEJOR RACHA",
+    bossesKilled: "JEFES",
+    parries: "PARADAS",
+    clashes: "CHOQUES G/P",
+    damageTaken: "DAÑO RECIBIDO",
+    rankTime: "TIEMPO POR RANGO",
+    playAgain: "JUGAR DE NUEVO",
+    records: "RÉCORDS",
+    newRecord: "NUEVO RÉCORD",
+    rankedAt: "PUESTO #{rank}",
+    hp: "VIDA",
+    focus: "CONCENTRACIÓN",
+    zoom: "ZOOM",
+    style: "ESTILO",
+    combo: "RACHA",
+    rankUp: "SUBES DE RANGO",
+    mash: "¡PULSA {key} SIN PARAR!",
+    paused: "PAUSA",
+    resume: "CONTINUAR",
+    restart: "REINICIAR",
+    settings: "AJUSTES",
+    quit: "SALIR AL MENÚ",
+    noRecords: "AÚN NO HAY PARTIDAS",
+    score: "PUNTOS",
+    date: "FECHA",
+    modeStage: "NIVEL",
+    modeEndless: "INFINITO",
+    controls: "CONTROLES",
+    pressKey: "PULSA UNA TECLA...",
+    resetBindings: "RESTABLECER",
+    gamepadHint: "MANDO: STICK / CRUCETA PARA MOVER · A SALTAR · X ATACAR · Y CONCENTRACIÓN · B ESQUIVAR · STICK ↑ / ↓ RÁPIDO PARA ESPECIALES",
+    solo: "1J SOLO",
+    coop: "2J COOPERATIVO",
+    styleShared: "ESTILO COMPARTIDO",
+    styleSplit: "ESTILO SEPARADO",
+    player1: "J1",
+    player2: "J2",
+    downed: "CAÍDO — ACÉRCATE PARA REVIVIR",
+    coopTag: "2J",
+    coopPadHint: "COOPERATIVO: EL PRIMER MANDO CONTROLA AL J2, LOS DEMÁS AL J1",
+    versus: "VERSUS",
+    tapOff: "¡DUELO! ¡PULSA {key} SIN PARAR!",
+    versusWins: "GANA {player}",
+    versusDraw: "DOBLE KO",
+    online: "EN LÍNEA",
+    relayUrl: "RELÉ",
+    hostRoom: "CREAR SALA",
+    joinRoom: "UNIRSE",
+    roomCode: "CÓDIGO DE SALA",
+    youAre: "ERES {player}",
+    roomWaiting: "ESPERANDO AL J2...",
+    roomReady: "EL J2 ESTÁ DENTRO",
+    roomWaitingHost: "ESPERANDO A QUE EL ANFITRIÓN EMPIECE...",
+    startRun: "EMPEZAR",
+    netWaiting: "ESPERANDO AL OTRO JUGADOR...",
+    netPeerPaused: "EL OTRO JUGADOR PAUSÓ",
+    netErrors: { unreachable: "NO SE PUEDE CONECTAR AL RELÉ", no_room: "NO HAY SALA CON ESE CÓDIGO", room_full: "ESA SALA ESTÁ LLENA", bad_message: "EL RELÉ RECHAZÓ UN MENSAJE", peer_left: "EL OTRO JUGADOR SE FUE", lost: "SE PERDIÓ LA CONEXIÓN CON EL RELÉ", desync: "PARTIDAS DESINCRONIZADAS — PARTIDA DETENIDA" },
+    training: "ENTRENAMIENTO",
+    dummy: "MUÑECO",
+    behavior: "COMPORTAMIENTO",
+    dummyCount: "CANTIDAD",
+    infiniteHealth: "VIDA INFINITA",
+    infiniteFocus: "CONCENTRACIÓN INFINITA",
+    behaviors: { idle: "QUIETO", attack: "ATACA", shoot: "DISPARA" },
+    enemies: { ENEMY_SWORD: "ESPADACHÍN", ENEMY_GUN: "TIRADOR", ENEMY_STRIKER: "ASALTANTE", ENEMY_DEFENDER: "ESCUDERO", ENEMY_LANCER: "LANCERO", BOSS: "SEÑOR DE LA GUERRA" },
+    moves: { dash_attack: "ESTOCADA", launcher: "LANZADOR", downward_strike: "GOLPE AÉREO", spin_attack: "CAMPO DE FUERZA", decoy: "SEÑUELO" },
+    misses: { dash_window: "DOBLE PULSACIÓN DEMASIADO LENTA", needs_air: "EL GOLPE AÉREO SOLO FUNCIONA EN EL AIRE", no_focus: "FALTA CONCENTRACIÓN", cooldown: "ESQUIVA EN ENFRIAMIENTO", decoy_active: "YA HAY UN SEÑUELO" },
+    audio: "SONIDO",
+    mute: "SILENCIAR",
+    muted: "SILENCIADO",
+    resetAudio: "RESTABLECER NIVELES",
+    audioAssets: "SONIDOS: {loaded} GRABADOS · {synthesized} SINTETIZADOS · {missing} EN SILENCIO",
+    accessibility: "ACCESIBILIDAD",
+    shake: "VIBRACIÓN DE PANTALLA",
+    particles: "PARTÍCULAS",
+    reduceFlashes: "REDUCIR DESTELLOS",
+    on: "SÍ",
+    off: "NO",
+    gore: "SANGRE",
+    goreStyles: { blood: "SANGRE", sparks: "CHISPAS", off: "NO" },
+    colorblind: "FILTRO DE COLOR",
+    colorblindModes: { none: "NORMAL", protanopia: "PROTANOPÍA", deuteranopia: "DEUTERANOPÍA", tritanopia: "TRITANOPÍA" },
+    resetAccessibility: "RESTABLECER OPCIONES",
+    renderer: "RENDERIZADO",
+    renderers: { auto: "AUTO", webgl: "WEBGL", canvas: "CANVAS" },
+    channels: { master: "GENERAL", music: "MÚSICA", sfx: "EFECTOS", ui: "INTERFAZ", ambience: "AMBIENTE" },
+    actions: { left: "IZQUIERDA", right: "DERECHA", up: "ARRIBA / LANZAR", down: "ABAJO / GOLPE AÉREO", jump: "SALTAR", attack: "ATACAR", focus: "CONCENTRACIÓN", dodge: "ESQUIVAR / SEÑUELO" },
+    guideTitle: "- GUÍA DE COMBATE -",
+    guideInputs: { spin_attack: "MANTÉN {attack}", downward_strike: "EN EL AIRE + {down} + {attack}", decoy: "MANTÉN {dodge}" },
+    guideNotes: { heal: "• CURACIÓN: 15% DE VIDA POR BAJA", parry: "• PARADA: +1 RANGO DE ESTILO", clash: "• CHOQUE: GANAR +2 | PERDER -2 RANGOS" }
+};
+
+export default es;
@@ -0,0 +1,118 @@
+import { LocaleMessages } from '../index';
+
+const ja: LocaleMessages = {
+    title: "ピクセル侍",
+    kills: "データ消去数",
+    init: "任務開始",
+    died: "接続切断",
+    honor: "侍の誇りは失われた",
+    retry: "誇りを取り戻す",
+    menu: "メニューに戻る",
+    guide: "技表",
+    bgmOn: "BGM: オン",
+    bgmOff: "BGM: オフ",
+    saveReplay: "リプレイ保存",
+    loadReplay: "リプレイ読込",
+    replayBadge: "リプレイ",
+    replayVerified: "リプレイ検証成功",
+    replayDesync: "リプレイ不一致",
+    replayInvalid: "無効なリプレイファイル",
+    endless: "エンドレス",
+    victory: "ステージクリア",
+    victorySub: "街に静寂が戻った",
+    time: "タイム",
+    peakRank: "最高ランク",
+    avgRank: "平均ランク",
+    longestCombo: "最長連続撃破",
+    bossesKilled: "ボス撃破",
+    parries: "パリィ",
+    clashes: "鍔迫り合い 勝/敗",
+    damageTaken: "被ダメージ",
+    rankTime: "ランク別時間",
+    playAgain: "もう一度",
+    records: "戦績",
+    newRecord: "新記録",
+    rankedAt: "{rank} 位",
+    hp: "体力",
+    focus: "集中",
+    zoom: "ズーム",
+    style: "スタイル",
+    combo: "連続撃破",
+    rankUp: "ランクアップ",
+    mash: "{key} を連打!",
+    paused: "一時停止",
+    resume: "再開",
+    restart: "やり直す",
+    settings: "設定",
+    quit: "メニューに戻る",
+    noRecords: "記録なし",
+    score: "スコア",
+    date: "日付",
+    modeStage: "ステージ",
+    modeEndless: "エンドレス",
+    controls: "操作設定",
+    pressKey: "キーを押してください...",
+    resetBindings: "初期設定に戻す",
+    gamepadHint: "ゲームパッド：スティック / 十字キーで移動 · A ジャンプ · X 攻撃 · Y 集中 · B 回避 · ↑ / ↓ にはじいて特殊技",
+    solo: "1P ソロ",
+    coop: "2P 協力",
+    styleShared: "スタイル共有",
+    styleSplit: "スタイル個別",
+    player1: "1P",
+    player2: "2P",
+    downed: "ダウン — 近くに立って復活",
+    coopTag: "2P",
+    coopPadHint: "協力プレイ：最初のゲームパッドが 2P、それ以外は 1P を操作",
+    versus: "対戦",
+    tapOff: "鍔迫り合い！{key} を連打!",
+    versusWins: "{player} の勝ち",
+    versusDraw: "相打ち",
+    online: "オンライン",
+    relayUrl: "リレー",
+    hostRoom: "部屋を作る",
+    joinRoom: "参加",
+    roomCode: "ルームコード",
+    youAre: "あなたは {player}",
+    roomWaiting: "2P の参加を待っています...",
+    roomReady: "2P が参加しました",
+    roomWaitingHost: "ホストの開始を待っています...",
+    startRun: "開始",
+    netWaiting: "相手を待っています...",
+    netPeerPaused: "相手が一時停止しました",
+    netErrors: { unreachable: "リレーに接続できません", no_room: "そのコードの部屋はありません", room_full: "部屋が満員です", bad_message: "リレーがメッセージを拒否しました", peer_left: "相手が退出しました", lost: "リレーとの接続が切れました", desync: "同期ずれのため対局を中止しました" },
+    training: "トレーニング",
+    dummy: "ダミー",
+    behavior: "行動",
+    dummyCount: "数",
+    infiniteHealth: "体力無限",
+    infiniteFocus: "集中無限",
+    behaviors: { idle: "静止", attack: "攻撃", shoot: "射撃" },
+    enemies: { ENEMY_SWORD: "剣士", ENEMY_GUN: "銃士", ENEMY_STRIKER: "強襲兵", ENEMY_DEFENDER: "盾兵", ENEMY_LANCER: "槍兵", BOSS: "浪人将軍" },
+    moves: { dash_attack: "突き", launcher: "打ち上げ", downward_strike: "叩きつけ", spin_attack: "力場展開", decoy: "分身" },
+    misses: { dash_window: "二度押しの間隔切れ", needs_air: "叩きつけは空中でのみ", no_focus: "集中が足りない", cooldown: "回避のクールダウン中", decoy_active: "分身は出現中" },
+    audio: "音量設定",
+    mute: "ミュート",
+    muted: "ミュート中",
+    resetAudio: "初期値に戻す",
+    audioAssets: "サウンド：収録 {loaded}・合成 {synthesized}・無音 {missing}",
+    accessibility: "アクセシビリティ",
+    shake: "画面の揺れ",
+    particles: "パーティクル",
+    reduceFlashes: "点滅を抑える",
+    on: "オン",
+    off: "オフ",
+    gore: "流血表現",
+    goreStyles: { blood: "血", sparks: "火花", off: "オフ" },
+    colorblind: "色覚補助",
+    colorblindModes: { none: "標準", protanopia: "1型色覚", deuteranopia: "2型色覚", tritanopia: "3型色覚" },
+    resetAccessibility: "オプションを初期値に戻す",
+    renderer: "描画方式",
+    renderers: { auto: "自動", webgl: "WEBGL", canvas: "CANVAS" },
+    channels: { master: "マスター", music: "音楽", sfx: "効果音", ui: "インターフェース", ambience: "環境音" },
+    actions: { left: "左へ移動", right: "右へ移動", up: "上 / 打ち上げ", down: "下 / 叩きつけ", jump: "ジャンプ", attack: "攻撃", focus: "集中", dodge: "回避 / 分身" },
+    guideTitle: "- 技表 -",
+    guideInputs: { spin_attack: "{attack} 長押し", downward_strike: "空中で {down} + {attack}", decoy: "{dodge} 長押し" },
+    guideNotes: { heal: "• 回復：撃破ごとに体力 15% 回復", parry: "• パリィ：スタイルランク +1", clash: "• 鍔迫り合い：勝利 +2 | 敗北 -2 ランク" }
+};
+
+export default ja;
@@ -0,0 +1,120 @@
+import { LocaleMessages } from '../index';
+
+const zh: LocaleMessages = {
+    op: "By__LicseL",
+    title: "像素武士",
+    kills: "数据清除数",
+    init: "启动任务",
+    died: "链接断开",
+    honor: "武士荣誉已丧失",
+    retry: "重拾荣誉",
+    menu: "返回主菜单",
+    guide: "搓招表",
+    subtitle: "By__LicseL",
+    bgmOn: "音乐: 开",
+    bgmOff: "音乐: 关",
+    saveReplay: "保存录像",
+    loadReplay: "读取录像",
+    replayBadge: "录像回放",
+    replayVerified: "录像校验通过",
+    replayDesync: "录像不同步",
+    replayInvalid: "录像文件无效",
+    endless: "无尽模式",
+    victory: "关卡完成",
+    victorySub: "街区重归寂静",
+    time: "用时",
+    peakRank: "最高评价",
+    avgRank: "平均评价",
+    longestCombo: "最长连杀",
+    bossesKilled: "击败首领",
+    parries: "弹反",
+    clashes: "拼刀 胜/负",
+    damageTaken: "承受伤害",
+    rankTime: "各评价时长",
+    playAgain: "再来一局",
+    records: "战绩",
+    newRecord: "新纪录",
+    rankedAt: "排名第 {rank}",
+    hp: "生命",
+    focus: "专注",
+    zoom: "缩放",
+    style: "评价",
+    combo: "连杀",
+    rankUp: "评价提升",
+    mash: "连按 {key}!",
+    paused: "已暂停",
+    resume: "继续",
+    restart: "重新开始",
+    settings: "设置",
+    quit: "退出到主菜单",
+    noRecords: "暂无记录",
+    score: "分数",
+    date: "日期",
+    modeStage: "关卡",
+    modeEndless: "无尽",
+    controls: "按键设置",
+    pressKey: "请按下按键...",
+    resetBindings: "恢复默认",
+    gamepadHint: "手柄：摇杆 / 十字键移动 · A 跳跃 · X 攻击 · Y 专注 · B 闪避 · 快速拨动摇杆 ↑ / ↓ 释放特技",
+    solo: "单人",
+    coop: "双人合作",
+    styleShared: "共享风格",
+    styleSplit: "独立风格",
+    player1: "1P",
+    player2: "2P",
+    downed: "倒地 — 靠近队友以复活",
+    coopTag: "双人",
+    coopPadHint: "合作模式：第一个手柄操作 2P，其余手柄操作 1P",
+    versus: "对战",
+    tapOff: "拼刀！连按 {key}!",
+    versusWins: "{player} 获胜",
+    versusDraw: "同归于尽",
+    online: "联机",
+    relayUrl: "中继服务器",
+    hostRoom: "创建房间",
+    joinRoom: "加入",
+    roomCode: "房间码",
+    youAre: "你是 {player}",
+    roomWaiting: "等待 2P 加入...",
+    roomReady: "2P 已加入，准备就绪",
+    roomWaitingHost: "等待房主开始...",
+    startRun: "开始",
+    netWaiting: "等待对方...",
+    netPeerPaused: "对方已暂停",
+    netErrors: { unreachable: "无法连接中继服务器", no_room: "没有这个房间", room_full: "房间已满", bad_message: "中继服务器拒绝了消息", peer_left: "对方已离开", lost: "与中继服务器的连接已断开", desync: "双方画面不同步，对局已停止" },
+    training: "训练模式",
+    dummy: "木桩",
+    behavior: "行为",
+    dummyCount: "数量",
+    infiniteHealth: "无限生命",
+    infiniteFocus: "无限专注",
+    behaviors: { idle: "静止", attack: "进攻", shoot: "射击" },
+    enemies: { ENEMY_SWORD: "剑士", ENEMY_GUN: "枪手", ENEMY_STRIKER: "突袭者", ENEMY_DEFENDER: "盾卫", ENEMY_LANCER: "枪兵", BOSS: "浪人军阀" },
+    moves: { dash_attack: "突刺", launcher: "上挑", downward_strike: "下砸", spin_attack: "力场展开", decoy: "分身" },
+    misses: { dash_window: "双击间隔超时", needs_air: "下砸只能在空中使用", no_focus: "专注不足", cooldown: "闪避冷却中", decoy_active: "分身已存在" },
+    audio: "音量设置",
+    mute: "静音",
+    muted: "已静音",
+    resetAudio: "恢复默认",
+    audioAssets: "音效：录制 {loaded} · 合成 {synthesized} · 静音 {missing}",
+    accessibility: "辅助功能",
+    shake: "屏幕震动",
+    particles: "粒子效果",
+    reduceFlashes: "减少闪光",
+    on: "开",
+    off: "关",
+    gore: "血腥效果",
+    goreStyles: { blood: "鲜血", sparks: "火花", off: "关闭" },
+    colorblind: "色盲模式",
+    colorblindModes: { none: "默认", protanopia: "红色盲", deuteranopia: "绿色盲", tritanopia: "蓝色盲" },
+    resetAccessibility: "恢复默认选项",
+    renderer: "渲染方式",
+    renderers: { auto: "自动", webgl: "WEBGL", canvas: "CANVAS" },
+    channels: { master: "总音量", music: "音乐", sfx: "音效", ui: "界面", ambience: "环境" },
+    actions: { left: "向左移动", right: "向右移动", up: "上 / 上挑", down: "下 / 下砸", jump: "跳跃", attack: "攻击", focus: "专注", dodge: "闪避 / 分身" },
+    guideTitle: "- 搓招表 -",
+    guideInputs: { launcher: "{up} + {attack}", dash_attack: "{left}{left} / {right}{right} + {attack}", spin_attack: "长按 {attack}", downward_strike: "空中时 {down} + {attack}", decoy: "长按 {dodge}" },
+    guideNotes: { heal: "• 回血机制：每杀死一人回血 15%", parry: "• 弹反：成功弹反飞镖评估等级 +1", clash: "• 拼刀：成功等级 +2 | 失败等级 -2" }
+};
+
+export default zh;
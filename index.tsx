@@ -3,6 +3,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { App as CapApp } from '@capacitor/app';
+import { BACK_EVENT } from './input/InputManager';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -15,6 +16,9 @@ const initNativeListeners = async () => {
     // 检查是否在原生环境（Capacitor 会注入原生对象）
     if (CapApp && typeof CapApp.addListener === 'function') {
       CapApp.addListener('backButton', ({ canGoBack }) => {
+        // 游戏内先处理返回键（暂停、关闭菜单），只有在主菜单时才退出应用
+        const handled = !window.dispatchEvent(new Event(BACK_EVENT, { cancelable: true }));
+        if (handled) return;
         if (!canGoBack) {
           CapApp.exitApp();
         } else {
@@ -0,0 +1,113 @@
+import { InputAction } from '../types';
+import { GAMEPAD_BUTTONS, GAMEPAD_START } from './bindings';
+import { InputManager, input } from './InputManager';
+
+const STICK_DEADZONE = 0.35;
+// Vertical stick needs a firmer push than horizontal so running on a slight diagonal doesn't jump.
+const STICK_VERTICAL = 0.6;
+// A flick goes from neutral to nearly full tilt within FLICK_MS and plays as direction + attack.
+const FLICK_THRESHOLD = 0.9;
+const FLICK_MS = 90;
+const FLICK_PULSE_MS = 100;
+
+interface PadState {
+    held: Set<InputAction>;
+    neutralAt: number;
+    flickUntil: number;
+    startHeld: boolean;
+}
+
+/**
+ * Polls the Gamepad API and feeds each controller into an input manager as its own `pad:<index>` source.
+ * The browser only reports gamepads by polling, so poll() must run every simulation tick.
+ */
+export class GamepadInput {
+    private pads = new Map<number, PadState>();
+    private startListeners = new Set<() => void>();
+    private targets: InputManager[];
+
+    constructor(target: InputManager) {
+        this.targets = [target];
+    }
+
+    /**
+     * Pad `i` drives `targets[(i + 1) % targets.length]`: with one target every pad plays it, and in co-op the first
+     * pad plays player two beside player one on the keyboard. Held buttons are released and picked up on the next poll.
+     */
+    route(targets: InputManager[]) {
+        [...this.pads.keys()].forEach(index => this.disconnect(index));
+        this.targets = targets;
+    }
+
+    private targetOf(index: number) { return this.targets[(index + 1) % this.targets.length]; }
+
+    get connected() { return this.pads.size; }
+
+    poll(now = performance.now()) {
+        const gamepads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+        const seen = new Set<number>();
+        for (const pad of gamepads) {
+            if (!pad || !pad.connected) continue;
+            seen.add(pad.index);
+            this.pollPad(pad, now);
+        }
+        // Unplugged mid-run: the disconnect event can arrive late (or never), so missing pads are released here too.
+        for (const index of [...this.pads.keys()]) if (!seen.has(index)) this.disconnect(index);
+    }
+
+    private pollPad(pad: Gamepad, now: number) {
+        let state = this.pads.get(pad.index);
+        if (!state) { state = { held: new Set(), neutralAt: now, flickUntil: 0, startHeld: false }; this.pads.set(pad.index, state); }
+        const source = `pad:${pad.index}`; const target = this.targetOf(pad.index);
+
+        const next = new Set<InputAction>();
+        pad.buttons.forEach((button, i) => { const action = GAMEPAD_BUTTONS[i]; if (action && button.pressed) next.add(action); });
+        const x = pad.axes[0] || 0, y = pad.axes[1] || 0;
+        if (x < -STICK_DEADZONE) next.add('left');
+        if (x > STICK_DEADZONE) next.add('right');
+        // Tilt past the deadzone, stretched back out to 0..1, sets the run speed.
+        const tilt = Math.min(1, (Math.abs(x) - STICK_DEADZONE) / (1 - STICK_DEADZONE));
+        target.tilt(tilt > 0 ? Math.sign(x) * tilt : null, source);
+        if (y < -STICK_VERTICAL) next.add('up');
+        if (y > STICK_VERTICAL) next.add('down');
+
+        const startHeld = !!pad.buttons[GAMEPAD_START]?.pressed;
+        if (startHeld && !state.startHeld) this.startListeners.forEach(listener => listener());
+        state.startHeld = startHeld;
+
+        next.forEach(action => { if (!state!.held.has(action)) target.press(action, source); });
+        state.held.forEach(action => { if (!next.has(action)) target.release(action, source); });
+        state.held = next;
+
+        // Stick flicks: up + attack is a launcher, down + attack in the air is a downward strike.
+        const flickSource = `${source}:flick`;
+        if (Math.abs(y) < STICK_DEADZONE) state.neutralAt = now;
+        else if (Math.abs(y) > FLICK_THRESHOLD && now - state.neutralAt < FLICK_MS && now >= state.flickUntil) {
+            target.press(y < 0 ? 'up' : 'down', flickSource);
+            target.press('attack', flickSource);
+            state.flickUntil = now + FLICK_PULSE_MS;
+            state.neutralAt = -Infinity;
+        }
+        if (state.flickUntil && now >= state.flickUntil) { target.releaseSource(flickSource); state.flickUntil = 0; }
+    }
+
+    private disconnect(index: number) {
+        this.targetOf(index).releaseSource(`pad:${index}`);
+        this.pads.delete(index);
+    }
+
+    /** Calls `listener` each time Start goes down on any pad. Returns the unsubscribe function. */
+    onStart(listener: () => void) {
+        this.startListeners.add(listener);
+        return () => { this.startListeners.delete(listener); };
+    }
+
+    private handleDisconnected = (e: GamepadEvent) => this.disconnect(e.gamepad.index);
+
+    attach(target: Window) {
+        target.addEventListener('gamepaddisconnected', this.handleDisconnected);
+        return () => target.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+    }
+}
+
+export const gamepads = new GamepadInput(input);
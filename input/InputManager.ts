@@ -0,0 +1,126 @@
+import { InputAction, InputFrame } from '../types';
+import { MOVE_STEPS } from '../constants';
+import { INPUT_ACTIONS, DEFAULT_BINDINGS, DEFAULT_PARTNER_BINDINGS, Bindings, cloneBindings } from './bindings';
+
+/**
+ * Collects logical actions from every input device. Each device (a key, the touch overlay, ...) holds actions
+ * under its own source id, so releasing one source never cancels an action another one still holds.
+ */
+export class InputManager {
+    // Replaced by the saved bindings once save data has loaded.
+    bindings: Bindings;
+    private held = new Map<string, Set<InputAction>>();
+    // Actions pressed since the last sample: a tap shorter than one tick still reaches the simulation.
+    private latched = new Set<InputAction>();
+    // Horizontal stick tilt by source, for sources that hold left or right part-way.
+    private tilts = new Map<string, number>();
+    private captureKey: ((code: string) => void) | null = null;
+
+    constructor(defaults: Bindings = DEFAULT_BINDINGS) {
+        this.bindings = cloneBindings(defaults);
+    }
+
+    press(action: InputAction, source = 'touch') {
+        if (!this.held.has(source)) this.held.set(source, new Set());
+        this.held.get(source)!.add(action);
+        this.latched.add(action);
+    }
+
+    release(action: InputAction, source = 'touch') {
+        this.held.get(source)?.delete(action);
+    }
+
+    /** Sets how far `source` tilts its direction, -1 to 1; null once it is back to all-or-nothing (or neutral). */
+    tilt(value: number | null, source: string) {
+        if (value === null) this.tilts.delete(source); else this.tilts.set(source, value);
+    }
+
+    /** Drops every action held by `source` or by a source under it (`pad:0` also clears `pad:0:flick`). */
+    releaseSource(source: string) {
+        const under = (id: string) => id === source || id.startsWith(`${source}:`);
+        for (const id of [...this.held.keys()]) if (under(id)) this.held.delete(id);
+        for (const id of [...this.tilts.keys()]) if (under(id)) this.tilts.delete(id);
+    }
+
+    releaseAll() {
+        this.held.clear();
+        this.tilts.clear();
+    }
+
+    isHeld(action: InputAction) {
+        for (const actions of this.held.values()) if (actions.has(action)) return true;
+        return false;
+    }
+
+    // The strongest tilt among the sources holding a direction, rounded to MOVE_STEPS. Keys and touch are full tilt,
+    // so any of them holding a direction makes it null, as does full tilt itself.
+    private moveAxis() {
+        let axis = 0;
+        for (const [source, actions] of this.held) {
+            if (!actions.has('left') && !actions.has('right')) continue;
+            const tilt = this.tilts.get(source);
+            if (tilt === undefined) return null;
+            if (Math.abs(tilt) > Math.abs(axis)) axis = tilt;
+        }
+        const steps = Math.max(1, Math.round(Math.abs(axis) * MOVE_STEPS));
+        return axis === 0 || steps === MOVE_STEPS ? null : Math.sign(axis) * steps / MOVE_STEPS;
+    }
+
+    /** Actions for the next simulation tick. Call exactly once per tick. */
+    sample(): InputFrame {
+        const frame: InputFrame = {};
+        INPUT_ACTIONS.forEach(action => { if (this.isHeld(action) || this.latched.has(action)) frame[action] = true; });
+        const move = this.moveAxis();
+        if (move !== null) frame.move = move;
+        this.latched.clear();
+        return frame;
+    }
+
+    setBindings(bindings: Bindings) {
+        this.bindings = bindings;
+    }
+
+    /** Hands the next key press to `onKey` instead of gameplay (used by the remapping screen). */
+    captureNextKey(onKey: ((code: string) => void) | null) {
+        this.captureKey = onKey;
+    }
+
+    private handleKeyDown = (e: KeyboardEvent) => {
+        if (this.captureKey) {
+            const onKey = this.captureKey;
+            this.captureKey = null;
+            e.preventDefault();
+            onKey(e.code);
+            return;
+        }
+        if (e.repeat) return;
+        const source = `key:${e.code}`;
+        INPUT_ACTIONS.forEach(action => { if (this.bindings[action].includes(e.code)) this.press(action, source); });
+    };
+
+    private handleKeyUp = (e: KeyboardEvent) => {
+        this.held.delete(`key:${e.code}`);
+    };
+
+    // Keys released while the window is unfocused never send keyup, so drop everything held.
+    private handleBlur = () => this.releaseAll();
+
+    attach(target: Window) {
+        target.addEventListener('keydown', this.handleKeyDown);
+        target.addEventListener('keyup', this.handleKeyUp);
+        target.addEventListener('blur', this.handleBlur);
+        return () => {
+            target.removeEventListener('keydown', this.handleKeyDown);
+            target.removeEventListener('keyup', this.handleKeyUp);
+            target.removeEventListener('blur', this.handleBlur);
+        };
+    }
+}
+
+export const input = new InputManager();
+
+/** Player two in co-op. Listens to the same keyboard under its own bindings; the first gamepad is routed here. */
+export const partnerInput = new InputManager(DEFAULT_PARTNER_BINDINGS);
+
+/** Dispatched on `window` for the platform back button. The app cancels it when it handled the press itself. */
+export const BACK_EVENT = 'pixelsamurai:back';
@@ -0,0 +1,62 @@
+import { InputAction } from '../types';
+
+export const INPUT_ACTIONS: InputAction[] = ['left', 'right', 'up', 'down', 'jump', 'attack', 'focus', 'dodge'];
+
+/** Keyboard codes (`KeyboardEvent.code`) bound to each action. */
+export type Bindings = Record<InputAction, string[]>;
+
+export const DEFAULT_BINDINGS: Bindings = {
+    left: ['KeyA'],
+    right: ['KeyD'],
+    up: ['KeyW'],
+    down: ['KeyS'],
+    jump: ['Space'],
+    attack: ['KeyJ'],
+    focus: ['KeyK'],
+    dodge: ['KeyL']
+};
+
+// Player two on a shared keyboard: arrows to move, the numpad for the buttons.
+export const DEFAULT_PARTNER_BINDINGS: Bindings = {
+    left: ['ArrowLeft'],
+    right: ['ArrowRight'],
+    up: ['ArrowUp'],
+    down: ['ArrowDown'],
+    jump: ['Numpad0'],
+    attack: ['Numpad1'],
+    focus: ['Numpad2'],
+    dodge: ['Numpad3']
+};
+
+export const cloneBindings = (bindings: Bindings): Bindings =>
+    INPUT_ACTIONS.reduce((out, action) => ({ ...out, [action]: [...bindings[action]] }), {} as Bindings);
+
+/** Binds `code` as the only key for `action` and unbinds it from every other action. */
+export const rebind = (bindings: Bindings, action: InputAction, code: string): Bindings => {
+    const next = cloneBindings(bindings);
+    INPUT_ACTIONS.forEach(a => { next[a] = next[a].filter(c => c !== code); });
+    next[action] = [code];
+    return next;
+};
+
+/** Short label for a key code: `KeyJ` -> `J`, `ArrowLeft` -> `←`, `Space` -> `SPACE`. */
+export const formatKeyCode = (code: string) => {
+    const arrows: { [code: string]: string } = { ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓' };
+    if (arrows[code]) return arrows[code];
+    return code.replace(/^Key/, '').replace(/^Digit/, '').replace(/^Numpad/, 'NUM ').toUpperCase();
+};
+
+// Standard-mapping gamepad buttons (https://w3c.github.io/gamepad/#remapping): A jumps, X attacks, Y focuses, B dodges.
+export const GAMEPAD_BUTTONS: { [button: number]: InputAction } = {
+    0: 'jump',
+    1: 'dodge',
+    2: 'attack',
+    3: 'focus',
+    12: 'up',
+    13: 'down',
+    14: 'left',
+    15: 'right'
+};
+
+// Start (standard mapping button 9) opens and closes the pause menu; it is not a gameplay action.
+export const GAMEPAD_START = 9;
@@ -1,5 +1,6 @@
-const { app, BrowserWindow } = require('electron');
+const { app, BrowserWindow, ipcMain } = require('electron');
 const path = require('path');
+const { startRelay, DEFAULT_PORT } = require('./server/relay');
 
 function createWindow() {
   const win = new BrowserWindow({
@@ -31,6 +32,21 @@ function createWindow() {
   // win.webContents.openDevTools();
 }
 
+// 桌面版自带联机中继：本机创建房间，局域网里的网页版/手机版填本机 IP 即可加入
+// 启动时不监听端口，等页面第一次在本机中继上创建房间时才启动，没玩联机就不会弹防火墙提示
+// 端口被占用时（比如已经单独跑了 npm run relay）直接沿用那个中继
+let relayStarting = null;
+ipcMain.handle('relay:start', (event, port) => {
+  if (!relayStarting) {
+    relayStarting = startRelay({ port: port || Number(process.env.RELAY_PORT) || DEFAULT_PORT }).then(() => true, err => {
+      console.warn(`Relay not started: ${err.message}`);
+      relayStarting = null;
+      return false;
+    });
+  }
+  return relayStarting;
+});
+
 app.whenReady().then(() => {
   createWindow();
 
@@ -0,0 +1,51 @@
+import { ClientMessage, ServerMessage } from './protocol';
+
+/** The one WebSocket to the relay. Frames are parsed here once and handed to every listener. */
+export class RelayClient {
+    private socket: WebSocket | null = null;
+    private messageListeners = new Set<(message: ServerMessage) => void>();
+    private closeListeners = new Set<() => void>();
+
+    get connected() { return !!this.socket && this.socket.readyState === WebSocket.OPEN; }
+
+    /** Opens a connection, dropping any previous one. Rejects if the relay can't be reached. */
+    connect(url: string): Promise<void> {
+        this.close();
+        return new Promise((resolve, reject) => {
+            let socket: WebSocket;
+            try { socket = new WebSocket(url); } catch (e) { reject(e); return; }
+            this.socket = socket;
+            socket.onopen = () => resolve();
+            socket.onerror = () => reject(new Error(`Relay unreachable at ${url}`));
+            socket.onmessage = e => {
+                let message: ServerMessage;
+                try { message = JSON.parse(String(e.data)); } catch (err) { console.warn('Unreadable relay message', err); return; }
+                this.messageListeners.forEach(listener => listener(message));
+            };
+            // Only a drop we didn't ask for is reported; close() detaches the socket first.
+            socket.onclose = () => { if (this.socket !== socket) return; this.socket = null; this.closeListeners.forEach(listener => listener()); };
+        });
+    }
+
+    send(message: ClientMessage) {
+        if (this.connected) this.socket!.send(JSON.stringify(message));
+    }
+
+    onMessage(listener: (message: ServerMessage) => void) {
+        this.messageListeners.add(listener);
+        return () => { this.messageListeners.delete(listener); };
+    }
+
+    onClose(listener: () => void) {
+        this.closeListeners.add(listener);
+        return () => { this.closeListeners.delete(listener); };
+    }
+
+    close() {
+        const socket = this.socket;
+        this.socket = null;
+        socket?.close();
+    }
+}
+
+export const relay = new RelayClient();
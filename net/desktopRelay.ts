@@ -0,0 +1,26 @@
+// The desktop build can run the relay in its main process (see main.js). It only starts once this machine hosts a
+// room on it, so a player who never goes online never has a port open. Everywhere else this does nothing.
+
+// The slice of Electron the page reaches through `require`, which main.js allows with nodeIntegration.
+interface ElectronRenderer {
+    ipcRenderer: { invoke(channel: string, ...args: unknown[]): Promise<unknown> };
+}
+
+declare global {
+    interface Window { require?: (module: 'electron') => ElectronRenderer; }
+}
+
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/** Asks the desktop build to start its relay when `url` points at this machine. Resolves once it is listening or has given up. */
+export const startLocalRelay = async (url: string) => {
+    if (typeof window === 'undefined' || !window.require) return;
+    let target: URL;
+    try { target = new URL(url); } catch (e) { return; }
+    if (!LOCAL_HOSTS.includes(target.hostname)) return;
+    try {
+        await window.require('electron').ipcRenderer.invoke('relay:start', Number(target.port) || undefined);
+    } catch (e) {
+        console.warn('Local relay failed to start', e);
+    }
+};
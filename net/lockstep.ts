@@ -0,0 +1,77 @@
+import { InputFrame } from '../types';
+import { encodeInput, decodeInput } from '../engine/replay';
+import { ClientMessage, ServerMessage, NetStart, ROOM_SEATS } from './protocol';
+
+// Local input is sent this many ticks before it is simulated (about 67 ms), which is the round trip the relay has to
+// fit in before the game stalls. Raising it hides more latency at the cost of slower-feeling controls.
+export const INPUT_DELAY = 4;
+// Peers swap world checksums this often to catch a desync while it is still one tick old.
+export const HASH_INTERVAL = 60;
+
+/**
+ * Deterministic lockstep for one online run. Each peer sends its input INPUT_DELAY ticks ahead, and a tick is only
+ * simulated once every seat's input for it has arrived, so both worlds step through the same inputs in the same order.
+ * A late packet stalls the run rather than being predicted, so there is never anything to roll back.
+ */
+export class LockstepSession {
+    /** Next tick to simulate, counted in live ticks like `GameWorld.tick`. */
+    tick = 0;
+    /** Set once a checksum from the other peer disagrees with ours; the worlds have split and the run can't go on. */
+    desynced = false;
+    // Per-tick input masks by seat, stick tilt included, filled in as they arrive. The first INPUT_DELAY ticks start
+    // out empty for everyone.
+    private masks = new Map<number, (number | undefined)[]>();
+    // A checksum waiting for the other peer's one for the same tick.
+    private hashes = new Map<number, number>();
+
+    constructor(readonly seat: number, readonly start: NetStart, private readonly send: (message: ClientMessage) => void) {
+        for (let tick = 0; tick < INPUT_DELAY; tick++) this.masks.set(tick, new Array(ROOM_SEATS).fill(0));
+    }
+
+    /** True when every seat's input for the next tick is in, so `advance()` will step. */
+    get ready() {
+        const masks = this.masks.get(this.tick);
+        return !!masks && masks.every(mask => mask !== undefined);
+    }
+
+    private masksAt(tick: number) {
+        let masks = this.masks.get(tick);
+        if (!masks) { masks = new Array(ROOM_SEATS).fill(undefined); this.masks.set(tick, masks); }
+        return masks;
+    }
+
+    /**
+     * Schedules `local` for INPUT_DELAY ticks from now and returns every seat's input for the current tick.
+     * Returns null, without consuming `local`, while another seat's input is still on its way.
+     */
+    advance(local: InputFrame): InputFrame[] | null {
+        if (!this.ready) return null;
+        const target = this.tick + INPUT_DELAY; const mask = encodeInput(local);
+        this.masksAt(target)[this.seat] = mask;
+        this.send({ type: 'input', round: this.start.round, tick: target, mask });
+        const frames = this.masks.get(this.tick)!.map(mask => decodeInput(mask!));
+        this.masks.delete(this.tick);
+        this.tick++;
+        return frames;
+    }
+
+    /** Takes the other peer's input and checksums. Anything from an earlier round is stale and dropped. */
+    receive(message: ServerMessage) {
+        if (message.type === 'input' && message.round === this.start.round && message.tick >= this.tick) this.masksAt(message.tick)[message.seat] = message.mask;
+        else if (message.type === 'hash' && message.round === this.start.round) this.compare(message.tick, message.hash);
+    }
+
+    /** Call after each live tick with the world's checksum; every HASH_INTERVAL ticks it is swapped with the peer. */
+    verify(tick: number, hash: number) {
+        if (tick % HASH_INTERVAL !== 0) return;
+        this.send({ type: 'hash', round: this.start.round, tick, hash });
+        this.compare(tick, hash);
+    }
+
+    private compare(tick: number, hash: number) {
+        const other = this.hashes.get(tick);
+        if (other === undefined) { this.hashes.set(tick, hash); return; }
+        this.hashes.delete(tick);
+        if (other !== hash) this.desynced = true;
+    }
+}
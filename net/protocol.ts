@@ -0,0 +1,44 @@
+import { GameMode } from '../types';
+import { StyleSharing } from '../engine/coop';
+
+// Messages exchanged through server/relay.js, one JSON object per WebSocket text frame. The relay only understands
+// `host`, `join` and disconnects; everything else is passed unchanged to the other seat in the room, with `seat` added.
+
+/** Relay the desktop build starts on this machine when it hosts, and the default everywhere else. */
+export const DEFAULT_RELAY_URL = 'ws://localhost:8787';
+
+/** Seat 0 hosts the room and plays player one; seat 1 joins by code and plays player two. */
+export const ROOM_SEATS = 2;
+
+/** Everything both peers need to build the same world. Sent by the host; a new one restarts the run. */
+export interface NetStart {
+    seed: number;
+    mode: GameMode;
+    stageId?: string;
+    styleSharing: StyleSharing;
+    /** Counts restarts within the room, so input still in flight from the previous run is dropped. */
+    round: number;
+}
+
+export type ClientMessage =
+    | { type: 'host' }
+    | { type: 'join', code: string }
+    | { type: 'start', start: NetStart }
+    | { type: 'input', round: number, tick: number, mask: number }
+    | { type: 'hash', round: number, tick: number, hash: number }
+    | { type: 'pause', round: number, paused: boolean };
+
+export type RelayError = 'no_room' | 'room_full' | 'bad_message';
+
+export type ServerMessage =
+    | { type: 'room', code: string, seat: number }
+    | { type: 'peer_joined', seat: number }
+    | { type: 'peer_left', seat: number }
+    | { type: 'error', reason: RelayError }
+    | { type: 'start', seat: number, start: NetStart }
+    | { type: 'input', seat: number, round: number, tick: number, mask: number }
+    | { type: 'hash', seat: number, round: number, tick: number, hash: number }
+    | { type: 'pause', seat: number, round: number, paused: boolean };
+
+/** A typed room code as the relay issues it: upper case, no spaces or dashes. */
+export const normalizeRoomCode = (code: string) => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
@@ -0,0 +1,182 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT, COLORS } from '../constants';
+import { Graffiti } from '../types';
+import { Sprite, ViewTransform } from './Renderer';
+
+// --- LAYOUT ---
+const GROUND_Y = CANVAS_HEIGHT - 40;
+// The pavement below the wall, with a slanted line every GROUND_LINE_SPACING and a fainter one every third.
+const GROUND_DEPTH = 400, GROUND_LINE_SPACING = 160;
+// The wall's brick grid.
+const BLOCK_WIDTH = 80, BLOCK_HEIGHT = 40;
+// Wall chunks span this much world x, a whole number of blocks so every chunk starts on a grid line.
+const CHUNK_WIDTH = BLOCK_WIDTH * 16;
+// Chunks are painted this far past both edges and drawn overlapping, so scaled drawing doesn't open seams between them.
+const CHUNK_PAD = 2;
+// Chunks kept at once; the ones furthest from the camera go first.
+const MAX_CHUNKS = 8;
+// How far right of its anchor a tag can reach: the longest word at the largest scale.
+const GRAFFITI_REACH = 800;
+// Skyline: rows -10..27, one every 450px, scrolling at 0.4 of the camera.
+const BUILDING_FIRST = -10, BUILDING_LAST = 27, BUILDING_SPACING = 450, BUILDING_WIDTH = 200, BUILDING_PARALLAX = 0.4;
+// Spires and antennas rise up to this far above a roof.
+const ROOF_CLEARANCE = 160;
+const SUN_RADIUS = 80;
+// Extra world x drawn past each side of the view, so camera shake never shows an edge.
+const VIEW_MARGIN = 100;
+// The sky reaches this far past every edge of the view, however far the camera zooms out.
+const SKY_MARGIN = 1200;
+
+const buildingHeight = (seed: number) => 600 + (seed * 160) % 800;
+
+const newCanvas = (width: number, height: number) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(width); canvas.height = Math.ceil(height);
+    return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const drawBuilding = (ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, seed: number) => {
+    ctx.save(); ctx.translate(x, y); ctx.fillStyle = COLORS.BUILDING[seed % COLORS.BUILDING.length]; const type = seed % 6;
+    if (type === 0) { ctx.fillRect(w*0.42, 0, w*0.16, h); ctx.beginPath(); ctx.arc(w/2, h*0.2, w*0.5, 0, Math.PI*2); ctx.fill(); ctx.beginPath(); ctx.arc(w/2, h*0.6, w*0.4, 0, Math.PI*2); ctx.fill(); ctx.fillRect(w*0.48, -160, 4, 160); }
+    else if (type === 1) { for(let k=0; k<7; k++) { const stepW = w * (1 - k*0.14); const stepH = h/7; ctx.fillRect((w-stepW)/2, k*stepH, stepW, stepH); ctx.strokeStyle = 'rgba(255,255,255,0.08)'; ctx.strokeRect((w-stepW)/2, k*stepH, stepW, stepH); } ctx.fillRect(w*0.48, -120, 6, 120); }
+    else if (type === 2) { ctx.beginPath(); ctx.moveTo(0, h); ctx.lineTo(w/2, 0); ctx.lineTo(w, h); ctx.closePath(); ctx.fill(); ctx.fillRect(w*0.45, -150, 12, 150); }
+    else if (type === 3) { ctx.fillRect(0, 0, w*0.3, h); ctx.fillRect(w*0.7, 50, w*0.3, h-50); ctx.fillRect(w*0.3, h*0.2, w*0.4, 25); }
+    else { ctx.fillRect(0, 0, w, h); ctx.fillStyle = 'rgba(255,255,255,0.12)'; for(let r=0; r<h; r+=45) for(let c=15; c<w; c+=30) ctx.fillRect(c, r+12, 15, 18); } ctx.restore();
+};
+
+const drawGraffiti = (ctx: CanvasRenderingContext2D, g: Graffiti) => {
+    ctx.save(); ctx.translate(g.x, g.y); ctx.rotate(g.rotation); ctx.scale(g.scale, g.scale); ctx.globalAlpha = 0.85;
+    if (g.type === 'text') { ctx.fillStyle = g.color; ctx.font = 'bold 24px "Press Start 2P"'; ctx.fillText(g.text || '', 0, 0); } else { ctx.fillStyle = g.color; ctx.fillRect(-10, -10, 20, 20); }
+    ctx.restore();
+};
+
+/**
+ * The sky, sun, skyline, graffiti wall and pavement behind every frame. None of it changes during a run, so each piece is painted
+ * once into an offscreen canvas and later frames only place those images: the sky as a one-pixel-wide gradient
+ * stretched across the view, one sprite per building, and the wall and pavement in CHUNK_WIDTH
+ * chunks with the graffiti baked in, made as the camera reaches them.
+ */
+export class BackgroundCache {
+    // The gradient, and the flat colours it fades from above and to below.
+    private sky: { gradient: HTMLCanvasElement, above: HTMLCanvasElement, below: HTMLCanvasElement } | null = null;
+    private sun: HTMLCanvasElement | null = null;
+    private buildings = new Map<number, HTMLCanvasElement>();
+    private chunks = new Map<number, HTMLCanvasElement>();
+    // Graffiti the chunks were baked from, bucketed by the chunk holding each anchor.
+    private graffiti: readonly Graffiti[] | null = null;
+    private graffitiByChunk = new Map<number, Graffiti[]>();
+
+    // Tags baked before the pixel font arrived were drawn in a fallback face, so the wall is repainted once it loads.
+    private handleFontsLoaded = () => this.chunks.clear();
+
+    attach() {
+        document.fonts?.addEventListener('loadingdone', this.handleFontsLoaded);
+        return () => { document.fonts?.removeEventListener('loadingdone', this.handleFontsLoaded); };
+    }
+
+    /** The background for one frame as seen through `view`, back to front, for `Renderer.drawBackdrop`. */
+    sprites(graffiti: readonly Graffiti[], view: ViewTransform) {
+        const { camX, camY } = view;
+        const sprites: Sprite[] = [];
+        const place = (image: HTMLCanvasElement, x: number, y: number, w = image.width, h = image.height) => sprites.push({ image, x, y, w, h });
+
+        const sky = this.skySprites();
+        const skyLeft = camX - SKY_MARGIN, skyWidth = CANVAS_WIDTH + SKY_MARGIN * 2;
+        const skyTop = camY - SKY_MARGIN, skyBottom = camY + CANVAS_HEIGHT + SKY_MARGIN;
+        if (skyTop < 0) place(sky.above, skyLeft, skyTop, skyWidth, -skyTop);
+        place(sky.gradient, skyLeft, 0, skyWidth, CANVAS_HEIGHT);
+        if (skyBottom > CANVAS_HEIGHT) place(sky.below, skyLeft, CANVAS_HEIGHT, skyWidth, skyBottom - CANVAS_HEIGHT);
+        place(this.sunSprite(), camX + CANVAS_WIDTH * 0.8 - SUN_RADIUS, camY + 100 - SUN_RADIUS);
+
+        const halfView = (CANVAS_WIDTH / 2 + Math.abs(view.shakeX)) / view.zoom + VIEW_MARGIN;
+        const left = camX + CANVAS_WIDTH / 2 - halfView, right = camX + CANVAS_WIDTH / 2 + halfView;
+        for (let i = BUILDING_FIRST; i <= BUILDING_LAST; i++) {
+            const bx = i * BUILDING_SPACING + camX * BUILDING_PARALLAX;
+            if (bx + BUILDING_WIDTH < left || bx > right) continue;
+            const sprite = this.buildingSprite(Math.abs(i));
+            place(sprite, bx - 1, -sprite.height);
+        }
+
+        if (graffiti !== this.graffiti) this.indexGraffiti(graffiti);
+        const first = Math.floor(left / CHUNK_WIDTH), last = Math.floor(right / CHUNK_WIDTH);
+        for (let k = first; k <= last; k++) place(this.chunk(k), k * CHUNK_WIDTH - CHUNK_PAD, 0);
+        this.evictChunks((first + last) / 2);
+        return sprites;
+    }
+
+    private skySprites() {
+        if (this.sky) return this.sky;
+        const gradient = newCanvas(1, CANVAS_HEIGHT);
+        const fill = gradient.ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT); fill.addColorStop(0, COLORS.SKY); fill.addColorStop(1, '#7dd3fc');
+        gradient.ctx.fillStyle = fill; gradient.ctx.fillRect(0, 0, 1, CANVAS_HEIGHT);
+        const swatch = (color: string) => {
+            const { canvas, ctx } = newCanvas(1, 1);
+            ctx.fillStyle = color; ctx.fillRect(0, 0, 1, 1);
+            return canvas;
+        };
+        return this.sky = { gradient: gradient.canvas, above: swatch(COLORS.SKY), below: swatch('#7dd3fc') };
+    }
+
+    private sunSprite() {
+        if (this.sun) return this.sun;
+        const { canvas, ctx } = newCanvas(SUN_RADIUS * 2, SUN_RADIUS * 2);
+        ctx.fillStyle = COLORS.SUN; ctx.beginPath(); ctx.arc(SUN_RADIUS, SUN_RADIUS, SUN_RADIUS, 0, Math.PI * 2); ctx.fill();
+        return this.sun = canvas;
+    }
+
+    // A building's sprite runs from the tip of its spire down to y = 0: everything lower is behind the wall.
+    // One pixel of padding each side keeps the outlined steps of the ziggurats whole.
+    private buildingSprite(seed: number) {
+        let sprite = this.buildings.get(seed);
+        if (sprite) return sprite;
+        const height = buildingHeight(seed);
+        const top = GROUND_Y - height - 80 - ROOF_CLEARANCE;
+        const { canvas, ctx } = newCanvas(BUILDING_WIDTH + 2, -top);
+        ctx.translate(1, -top);
+        drawBuilding(ctx, 0, GROUND_Y - height - 80, BUILDING_WIDTH, height, seed);
+        this.buildings.set(seed, canvas);
+        return canvas;
+    }
+
+    private indexGraffiti(graffiti: readonly Graffiti[]) {
+        this.graffiti = graffiti;
+        this.graffitiByChunk.clear();
+        this.chunks.clear();
+        graffiti.forEach(g => {
+            const k = Math.floor(g.x / CHUNK_WIDTH);
+            const bucket = this.graffitiByChunk.get(k);
+            if (bucket) bucket.push(g); else this.graffitiByChunk.set(k, [g]);
+        });
+    }
+
+    private chunk(k: number) {
+        let chunk = this.chunks.get(k);
+        if (chunk) return chunk;
+        const x0 = k * CHUNK_WIDTH - CHUNK_PAD, width = CHUNK_WIDTH + CHUNK_PAD * 2;
+        const { canvas, ctx } = newCanvas(width, GROUND_Y + GROUND_DEPTH);
+        ctx.translate(-x0, 0);
+        ctx.fillStyle = COLORS.WALL; ctx.fillRect(x0, 0, width, GROUND_Y);
+        ctx.strokeStyle = 'rgba(0,0,0,0.1)'; ctx.lineWidth = 1;
+        for (let tx = k * CHUNK_WIDTH; tx <= x0 + width; tx += BLOCK_WIDTH) { ctx.beginPath(); ctx.moveTo(tx, 0); ctx.lineTo(tx, GROUND_Y); ctx.stroke(); }
+        for (let ty = 0; ty < GROUND_Y; ty += BLOCK_HEIGHT) { ctx.beginPath(); ctx.moveTo(x0, ty); ctx.lineTo(x0 + width, ty); ctx.stroke(); }
+        ctx.fillStyle = COLORS.GROUND; ctx.fillRect(x0, GROUND_Y, width, GROUND_DEPTH);
+        // Lines reach up to 400px sideways from where they start, so ones starting in the neighbouring chunks count too.
+        for (let gx = Math.floor((x0 - 400) / GROUND_LINE_SPACING) * GROUND_LINE_SPACING; gx < x0 + width + 200; gx += GROUND_LINE_SPACING) {
+            ctx.strokeStyle = 'rgba(255,255,255,0.08)'; ctx.beginPath(); ctx.moveTo(gx, GROUND_Y); ctx.lineTo(gx + 150, GROUND_Y + GROUND_DEPTH); ctx.stroke();
+            if (gx % (GROUND_LINE_SPACING * 3) === 0) { ctx.strokeStyle = 'rgba(255,255,255,0.035)'; ctx.beginPath(); ctx.moveTo(gx + 400, GROUND_Y); ctx.lineTo(gx - 200, GROUND_Y + GROUND_DEPTH); ctx.stroke(); }
+        }
+        // A tag anchored in a neighbouring chunk can still spill into this one.
+        for (let n = k - 1; n <= k + 1; n++) {
+            this.graffitiByChunk.get(n)?.forEach(g => { if (g.x + GRAFFITI_REACH > x0 && g.x - GRAFFITI_REACH < x0 + width) drawGraffiti(ctx, g); });
+        }
+        this.chunks.set(k, canvas);
+        return canvas;
+    }
+
+    private evictChunks(centre: number) {
+        while (this.chunks.size > MAX_CHUNKS) {
+            let furthest = 0, distance = -1;
+            this.chunks.forEach((_, k) => { if (Math.abs(k - centre) > distance) { distance = Math.abs(k - centre); furthest = k; } });
+            this.chunks.delete(furthest);
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import { ParticlePool, ParticleKind } from '../engine/particles';
+import { AccessibilitySettings, goreColor } from './accessibility';
+import { Renderer, Sprite, ViewTransform, applyView } from './Renderer';
+
+/** Everything straight onto the visible canvas with Canvas2D. The fallback when WebGL2 is missing or turned off. */
+export class CanvasRenderer implements Renderer {
+    readonly kind = 'canvas';
+    readonly scene: CanvasRenderingContext2D;
+    readonly bloom = false;
+
+    constructor(canvas: HTMLCanvasElement) {
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas2D is not available');
+        this.scene = ctx;
+    }
+
+    drawBackdrop(sprites: readonly Sprite[], view: ViewTransform) {
+        const ctx = this.scene;
+        ctx.save(); applyView(ctx, view);
+        sprites.forEach(s => ctx.drawImage(s.image, s.x, s.y, s.w, s.h));
+        ctx.restore();
+    }
+
+    // One style change per kind and colour instead of a save/restore per particle; only the alpha is set per particle.
+    drawParticles(pool: ParticlePool, view: ViewTransform, a11y: AccessibilitySettings) {
+        const ctx = this.scene;
+        ctx.save(); applyView(ctx, view);
+        pool.forEachBatch((kind, color, start, end) => {
+            const dim = a11y.reduceFlashes && (kind === ParticleKind.STREAK || kind === ParticleKind.SHOCKWAVE) ? 0.3 : 1;
+            if (kind === ParticleKind.SHOCKWAVE) {
+                ctx.strokeStyle = color; ctx.lineWidth = 12;
+                for (let n = start; n < end; n++) { const i = pool.order[n]; const fade = pool.life[i] / pool.maxLife[i] * dim; const radius = pool.size[i] * (1 - pool.life[i] / pool.maxLife[i]); ctx.globalAlpha = fade * fade; ctx.beginPath(); ctx.ellipse(pool.x[i], pool.y[i], radius, radius * 0.52, 0, 0, Math.PI * 2); ctx.stroke(); }
+                return;
+            }
+            ctx.fillStyle = kind === ParticleKind.BLOOD || kind === ParticleKind.LIQUID ? goreColor(color, a11y.gore) : color;
+            for (let n = start; n < end; n++) { const i = pool.order[n]; const size = pool.size[i]; ctx.globalAlpha = pool.life[i] / pool.maxLife[i] * dim; ctx.fillRect(pool.x[i] - size / 2, pool.y[i] - size / 2, size, size); }
+        });
+        ctx.restore();
+    }
+
+    // The whole frame is repainted, so the overlay is too.
+    beginOverlay(key: string) {
+        return key ? this.scene : null;
+    }
+
+    present() {}
+
+    dispose() {}
+}
@@ -0,0 +1,52 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { MapObject } from '../types';
+import { Sprite, ViewTransform } from './Renderer';
+
+const GROUND_Y = CANVAS_HEIGHT - 40;
+// Painted this far past every edge: the outer leaves of a narrow plant poke a few pixels past its width.
+const PROP_PAD = 4;
+
+const drawMapObject = (ctx: CanvasRenderingContext2D, o: MapObject) => {
+    if (o.type === 'platform') {
+        ctx.fillStyle = '#15151f'; ctx.fillRect(16, o.height, 8, GROUND_Y - o.pos.y - o.height); ctx.fillRect(o.width - 24, o.height, 8, GROUND_Y - o.pos.y - o.height);
+        ctx.fillStyle = '#2a2a3a'; ctx.fillRect(0, 0, o.width, o.height); ctx.fillStyle = '#0e7490'; ctx.fillRect(0, 0, o.width, 3);
+        ctx.fillStyle = 'rgba(0,0,0,0.5)'; for (let x = 12; x < o.width - 8; x += 24) ctx.fillRect(x, 6, 12, 4);
+    } else if (!o.isBroken) {
+        const potH = o.height * 0.35; ctx.fillStyle = '#7c2d12'; ctx.beginPath(); ctx.moveTo(2, o.height - potH); ctx.lineTo(o.width - 2, o.height - potH); ctx.lineTo(o.width - 8, o.height); ctx.lineTo(8, o.height); ctx.closePath(); ctx.fill();
+        ctx.fillStyle = '#14532d'; for (let i = 0; i < 4; i++) { const lx = o.width * (0.2 + i * 0.2); ctx.beginPath(); ctx.moveTo(lx - 6, o.height - potH); ctx.lineTo(lx + (i % 2 ? 10 : -10), 0); ctx.lineTo(lx + 6, o.height - potH); ctx.closePath(); ctx.fill(); }
+    } else {
+        ctx.fillStyle = '#7c2d12'; ctx.fillRect(6, o.height - 10, o.width * 0.4, 10); ctx.fillRect(o.width * 0.55, o.height - 6, o.width * 0.35, 6);
+        ctx.fillStyle = '#14532d'; ctx.fillRect(o.width * 0.3, o.height - 16, 6, 16);
+    }
+};
+
+/**
+ * Platforms and plants, each painted once into its own sprite, reaching down to the ground so a platform's legs come
+ * with it. A plant gets a new sprite when it breaks. Sprites for props that leave the view are dropped.
+ */
+export class PropCache {
+    private props = new Map<string, HTMLCanvasElement>();
+
+    /** Sprites for the props near the view, for `Renderer.drawBackdrop`. Appended to `sprites` when given. */
+    sprites(objects: readonly MapObject[], view: ViewTransform, sprites: Sprite[] = []) {
+        const shown = new Map<string, HTMLCanvasElement>();
+        objects.forEach(o => {
+            if (o.pos.x + o.width <= view.camX - CANVAS_WIDTH || o.pos.x >= view.camX + CANVAS_WIDTH * 2) return;
+            const key = `${o.id}:${o.isBroken ? 'broken' : 'whole'}`;
+            const image = this.props.get(key) ?? this.paint(o);
+            shown.set(key, image);
+            sprites.push({ image, x: o.pos.x - PROP_PAD, y: o.pos.y - PROP_PAD, w: image.width, h: image.height });
+        });
+        this.props = shown;
+        return sprites;
+    }
+
+    private paint(o: MapObject) {
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.ceil(o.width) + PROP_PAD * 2; canvas.height = Math.ceil(Math.max(o.height, GROUND_Y - o.pos.y)) + PROP_PAD * 2;
+        const ctx = canvas.getContext('2d')!;
+        ctx.translate(PROP_PAD, PROP_PAD);
+        drawMapObject(ctx, o);
+        return canvas;
+    }
+}
@@ -0,0 +1,77 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { ParticlePool } from '../engine/particles';
+import { AccessibilitySettings } from './accessibility';
+
+/** The backend actually drawing the game. */
+export type RendererKind = 'webgl' | 'canvas';
+
+/** Stored choice. `auto` takes WebGL2 unless the browser would only run it in software; `webgl` takes it regardless. */
+export type RendererPreference = 'auto' | RendererKind;
+
+export const RENDERER_PREFERENCES: RendererPreference[] = ['auto', 'webgl', 'canvas'];
+
+/** Camera for one frame, already interpolated between ticks and shaken. */
+export interface ViewTransform {
+    camX: number;
+    camY: number;
+    zoom: number;
+    shakeX: number;
+    shakeY: number;
+}
+
+/**
+ * A baked picture stretched over `w` × `h` world units at `x`, `y`. Its image must not be repainted once drawn: WebGL
+ * uploads it the first time it sees it and keeps the texture while it stays in use.
+ */
+export interface Sprite {
+    image: HTMLCanvasElement;
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+/**
+ * Draws one frame: baked backdrop sprites at the back, then whatever changes from frame to frame (characters, gore,
+ * bullets), which both backends paint with Canvas2D into `scene`, then particles and the overlay. The backends differ
+ * in how sprites and particles are drawn and in what happens to the painted layers.
+ */
+export interface Renderer {
+    readonly kind: RendererKind;
+    /** World-space layer, drawn with `applyView` each frame over the backdrop. */
+    readonly scene: CanvasRenderingContext2D;
+    /** The backend has a bloom pass, so soft glows should be left to it rather than drawn with `shadowBlur`. */
+    readonly bloom: boolean;
+    /** Draws `sprites` in order, behind everything painted into `scene` this frame. Call before painting `scene`. */
+    drawBackdrop(sprites: readonly Sprite[], view: ViewTransform): void;
+    drawParticles(pool: ParticlePool, view: ViewTransform, a11y: AccessibilitySettings): void;
+    /**
+     * Screen-space context for the bars and banners above the particles, or null when there is nothing to paint:
+     * `key` is empty, or it matches the last frame's and the backend still shows that overlay.
+     */
+    beginOverlay(key: string): CanvasRenderingContext2D | null;
+    /** Ends the frame; on WebGL this is where the layers are composited and post-processed. */
+    present(a11y: AccessibilitySettings): void;
+    dispose(): void;
+}
+
+/** Moves a context from screen space into the world as seen through `view`. */
+export const applyView = (ctx: CanvasRenderingContext2D, view: ViewTransform) => {
+    ctx.translate(view.shakeX, view.shakeY);
+    ctx.translate(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2); ctx.scale(view.zoom, view.zoom); ctx.translate(-CANVAS_WIDTH / 2 - view.camX, -CANVAS_HEIGHT / 2 - view.camY);
+};
+
+// Probed on a throwaway canvas: once a canvas has handed out one kind of context it can never give out the other.
+const webglAvailable = (strict: boolean) => {
+    try {
+        const gl = document.createElement('canvas').getContext('webgl2', { failIfMajorPerformanceCaveat: strict });
+        gl?.getExtension('WEBGL_lose_context')?.loseContext();
+        return !!gl;
+    } catch (e) {
+        return false;
+    }
+};
+
+/** Resolves a stored preference to the backend this browser will run. */
+export const pickRenderer = (preference: RendererPreference): RendererKind =>
+    preference !== 'canvas' && webglAvailable(preference === 'auto') ? 'webgl' : 'canvas';
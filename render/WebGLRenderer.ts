@@ -0,0 +1,480 @@
+import { CANVAS_WIDTH, CANVAS_HEIGHT } from '../constants';
+import { ParticlePool, ParticleKind, PARTICLE_BUDGET } from '../engine/particles';
+import { AccessibilitySettings, goreColor } from './accessibility';
+import { Renderer, Sprite, ViewTransform } from './Renderer';
+
+// --- SHADERS ---
+// Vertex shaders need highp: world x runs into the tens of thousands.
+const VS_HEADER = '#version 300 es\nprecision highp float;\n';
+const FS_HEADER = '#version 300 es\nprecision mediump float;\n';
+
+// Two triangles over the whole target; v_uv runs 0..1 from the bottom-left.
+const FULLSCREEN_VS = `${VS_HEADER}
+layout(location = 0) in vec2 a_corner;
+out vec2 v_uv;
+void main() { v_uv = a_corner; gl_Position = vec4(a_corner * 2.0 - 1.0, 0.0, 1.0); }`;
+
+const BLIT_FS = `${FS_HEADER}
+uniform sampler2D u_image;
+in vec2 v_uv;
+out vec4 outColor;
+void main() { outColor = texture(u_image, v_uv); }`;
+
+// One instanced quad per sprite, placed with the same camera maths as applyView. The texture is the whole image, which
+// is uploaded top row first, so the quad's corners are its texture coordinates.
+const SPRITE_VS = `${VS_HEADER}
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_rect;
+uniform vec4 u_view;
+uniform vec2 u_resolution;
+out vec2 v_uv;
+void main() {
+    vec2 world = a_rect.xy + a_corner * a_rect.zw;
+    vec2 screen = (world - u_view.xy) * u_view.z + u_resolution * 0.5;
+    gl_Position = vec4(screen / u_resolution * 2.0 - 1.0, 0.0, 1.0) * vec4(1.0, -1.0, 1.0, 1.0);
+    v_uv = a_corner;
+}`;
+
+// One instanced quad per particle, placed like the sprites.
+const PARTICLE_VS = `${VS_HEADER}
+layout(location = 0) in vec2 a_corner;
+layout(location = 1) in vec4 a_rect;
+layout(location = 2) in vec4 a_color;
+layout(location = 3) in float a_ring;
+uniform vec4 u_view;
+uniform vec2 u_resolution;
+out vec2 v_local;
+out vec4 v_color;
+out float v_ring;
+void main() {
+    vec2 local = a_corner * 2.0 - 1.0;
+    vec2 world = a_rect.xy + local * a_rect.zw;
+    vec2 screen = (world - u_view.xy) * u_view.z + u_resolution * 0.5;
+    gl_Position = vec4(screen / u_resolution * 2.0 - 1.0, 0.0, 1.0) * vec4(1.0, -1.0, 1.0, 1.0);
+    v_local = local; v_color = a_color; v_ring = a_ring;
+}`;
+
+// Squares are filled; a ring keeps only the outer `v_ring` of its radius.
+const PARTICLE_FS = `${FS_HEADER}
+in vec2 v_local;
+in vec4 v_color;
+in float v_ring;
+out vec4 outColor;
+void main() {
+    float alpha = v_color.a;
+    if (v_ring > 0.0) {
+        float d = length(v_local); float edge = fwidth(d);
+        alpha *= smoothstep(1.0 - v_ring - edge, 1.0 - v_ring, d) * (1.0 - smoothstep(1.0 - edge, 1.0, d));
+    }
+    outColor = vec4(v_color.rgb * alpha, alpha);
+}`;
+
+// Keeps what is brighter than the threshold, with a soft knee so glows don't switch on with a hard edge.
+const BRIGHT_FS = `${FS_HEADER}
+uniform sampler2D u_image;
+in vec2 v_uv;
+out vec4 outColor;
+void main() {
+    vec3 color = texture(u_image, v_uv).rgb;
+    float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+    outColor = vec4(color * smoothstep(0.7, 0.95, luma), 1.0);
+}`;
+
+const BLUR_FS = `${FS_HEADER}
+uniform sampler2D u_image;
+uniform vec2 u_step;
+in vec2 v_uv;
+out vec4 outColor;
+void main() {
+    vec3 sum = texture(u_image, v_uv).rgb * 0.227;
+    sum += (texture(u_image, v_uv + u_step * 1.385).rgb + texture(u_image, v_uv - u_step * 1.385).rgb) * 0.316;
+    sum += (texture(u_image, v_uv + u_step * 3.231).rgb + texture(u_image, v_uv - u_step * 3.231).rgb) * 0.070;
+    outColor = vec4(sum, 1.0);
+}`;
+
+// Bloom on top, then the old-monitor look that used to be the CSS .crt overlay: alternate dark rows, a hint of colour
+// fringing, a slight barrel curve and darker corners.
+const CRT_FS = `${FS_HEADER}
+uniform sampler2D u_scene;
+uniform sampler2D u_bloom;
+uniform float u_bloomStrength;
+uniform vec2 u_resolution;
+in vec2 v_uv;
+out vec4 outColor;
+void main() {
+    vec2 centred = v_uv * 2.0 - 1.0;
+    centred *= 1.0 + dot(centred.yx, centred.yx) * vec2(0.015, 0.025);
+    vec2 uv = centred * 0.5 + 0.5;
+    if (uv.x < 0.0 || uv.y < 0.0 || uv.x > 1.0 || uv.y > 1.0) { outColor = vec4(0.0, 0.0, 0.0, 1.0); return; }
+    float fringe = 0.75 / u_resolution.x;
+    vec3 color = vec3(texture(u_scene, uv + vec2(fringe, 0.0)).r, texture(u_scene, uv).g, texture(u_scene, uv - vec2(fringe, 0.0)).b);
+    color += texture(u_bloom, uv).rgb * u_bloomStrength;
+    color *= mod(floor(gl_FragCoord.y), 2.0) < 1.0 ? 0.9 : 1.0;
+    vec2 edge = uv * (1.0 - uv);
+    color *= pow(edge.x * edge.y * 16.0, 0.15);
+    outColor = vec4(color, 1.0);
+}`;
+
+// Bloom strength, turned down with reduce-flashes so hits don't white out the screen.
+const BLOOM_STRENGTH = 0.8;
+const BLOOM_STRENGTH_REDUCED = 0.3;
+
+// Floats per particle instance: centre x/y, half width/height, r, g, b, a, ring thickness.
+const INSTANCE_FLOATS = 9;
+// Floats per sprite instance: top-left x/y, width, height.
+const SPRITE_FLOATS = 4;
+// A sprite's texture is deleted once its image has gone this many frames without being drawn.
+const SPRITE_IDLE_FRAMES = 600;
+
+// --- COLOURS ---
+const parsedColors = new Map<string, [number, number, number]>();
+
+// Particle colours are plain #rgb/#rrggbb or rgb()/rgba() strings. Anything else comes out white.
+const parseColor = (color: string): [number, number, number] => {
+    let rgb = parsedColors.get(color);
+    if (rgb) return rgb;
+    rgb = [1, 1, 1];
+    const hex = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i.exec(color);
+    const fn = /^rgba?\(\s*([\d.]+)\s*,\s*([\d.]+)\s*,\s*([\d.]+)/i.exec(color);
+    if (hex) {
+        const digits = hex[1].length === 3 ? hex[1].replace(/./g, c => c + c) : hex[1];
+        rgb = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16) / 255) as [number, number, number];
+    } else if (fn) rgb = [Number(fn[1]) / 255, Number(fn[2]) / 255, Number(fn[3]) / 255];
+    parsedColors.set(color, rgb);
+    return rgb;
+};
+
+interface Target { texture: WebGLTexture; framebuffer: WebGLFramebuffer; width: number; height: number }
+
+interface SpriteTexture { texture: WebGLTexture; lastUsed: number }
+
+// Consecutive sprites sharing an image go out as one instanced draw.
+interface SpriteRun { texture: WebGLTexture; start: number; count: number }
+
+/**
+ * WebGL2 backend. Backdrop sprites are uploaded once per image and drawn as instanced quads. The Canvas2D scene
+ * layer, which only holds what changes every frame, is uploaded over them each frame; particles follow as two
+ * instanced batches (normal blending, then additive for streaks and shockwaves), and the overlay is uploaded only
+ * when it changes. The result goes through a half-resolution bloom and a CRT pass on its way to the screen.
+ */
+export class WebGLRenderer implements Renderer {
+    readonly kind = 'webgl';
+    readonly scene: CanvasRenderingContext2D;
+    readonly bloom = true;
+
+    private gl: WebGL2RenderingContext;
+    private programs: { blit: WebGLProgram, sprite: WebGLProgram, particle: WebGLProgram, bright: WebGLProgram, blur: WebGLProgram, crt: WebGLProgram };
+    private uniforms = new Map<WebGLProgram, Map<string, WebGLUniformLocation | null>>();
+    private quad: WebGLVertexArrayObject;
+    private spriteVao: WebGLVertexArrayObject;
+    private particleVao: WebGLVertexArrayObject;
+    private buffers: WebGLBuffer[] = [];
+    private instanceBuffer: WebGLBuffer;
+    private instances = new Float32Array(PARTICLE_BUDGET * INSTANCE_FLOATS);
+    private particleCount = 0;
+    private additiveStart = 0;
+    private view: ViewTransform = { camX: 0, camY: 0, zoom: 1, shakeX: 0, shakeY: 0 };
+    private spriteTextures = new Map<HTMLCanvasElement, SpriteTexture>();
+    private spriteBuffer: WebGLBuffer;
+    private sprites = new Float32Array(SPRITE_FLOATS * 64);
+    private spriteRuns: SpriteRun[] = [];
+    private frame = 0;
+    private overlay: CanvasRenderingContext2D;
+    // What the overlay layer shows, as the caller summed it up, and whether the texture still has an older picture.
+    private overlayKey = '';
+    private overlayStale = false;
+    private sceneTexture: WebGLTexture;
+    private overlayTexture: WebGLTexture;
+    private composite: Target;
+    private bloomTargets: [Target, Target];
+
+    /** Throws if WebGL2 or any of the shaders is unavailable; the caller falls back to Canvas2D. */
+    constructor(private canvas: HTMLCanvasElement, private onLost: () => void) {
+        const gl = canvas.getContext('webgl2', { alpha: false, antialias: false, premultipliedAlpha: true });
+        if (!gl) throw new Error('WebGL2 is not available');
+        this.gl = gl;
+        this.scene = this.createLayer();
+        this.overlay = this.createLayer();
+        this.programs = {
+            blit: this.program(FULLSCREEN_VS, BLIT_FS), sprite: this.program(SPRITE_VS, BLIT_FS), particle: this.program(PARTICLE_VS, PARTICLE_FS),
+            bright: this.program(FULLSCREEN_VS, BRIGHT_FS), blur: this.program(FULLSCREEN_VS, BLUR_FS), crt: this.program(FULLSCREEN_VS, CRT_FS)
+        };
+
+        const corners = this.buffer(new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+        this.quad = gl.createVertexArray()!;
+        gl.bindVertexArray(this.quad);
+        gl.bindBuffer(gl.ARRAY_BUFFER, corners); gl.enableVertexAttribArray(0); gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+
+        this.spriteBuffer = this.buffer(this.sprites, gl.DYNAMIC_DRAW);
+        this.spriteVao = gl.createVertexArray()!;
+        gl.bindVertexArray(this.spriteVao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, corners); gl.enableVertexAttribArray(0); gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.spriteBuffer);
+        gl.enableVertexAttribArray(1); gl.vertexAttribPointer(1, 4, gl.FLOAT, false, SPRITE_FLOATS * 4, 0); gl.vertexAttribDivisor(1, 1);
+
+        this.instanceBuffer = this.buffer(this.instances, gl.DYNAMIC_DRAW);
+        this.particleVao = gl.createVertexArray()!;
+        gl.bindVertexArray(this.particleVao);
+        gl.bindBuffer(gl.ARRAY_BUFFER, corners); gl.enableVertexAttribArray(0); gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+        const stride = INSTANCE_FLOATS * 4;
+        [[1, 4, 0], [2, 4, 4], [3, 1, 8]].forEach(([location, size, offset]) => {
+            gl.enableVertexAttribArray(location); gl.vertexAttribPointer(location, size, gl.FLOAT, false, stride, offset * 4); gl.vertexAttribDivisor(location, 1);
+        });
+        gl.bindVertexArray(null);
+
+        // The layers keep their storage and are refilled with texSubImage2D.
+        this.sceneTexture = this.texture(gl.NEAREST);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, CANVAS_WIDTH, CANVAS_HEIGHT, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        this.overlayTexture = this.texture(gl.NEAREST);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, CANVAS_WIDTH, CANVAS_HEIGHT, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        this.composite = this.target(CANVAS_WIDTH, CANVAS_HEIGHT);
+        this.bloomTargets = [this.target(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2), this.target(CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2)];
+        canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    }
+
+    private handleContextLost = (e: Event) => { e.preventDefault(); this.onLost(); };
+
+    private createLayer() {
+        const layer = document.createElement('canvas');
+        layer.width = CANVAS_WIDTH; layer.height = CANVAS_HEIGHT;
+        const ctx = layer.getContext('2d');
+        if (!ctx) throw new Error('Canvas2D is not available');
+        return ctx;
+    }
+
+    private program(vertexSource: string, fragmentSource: string) {
+        const gl = this.gl;
+        const compile = (type: number, source: string) => {
+            const shader = gl.createShader(type)!;
+            gl.shaderSource(shader, source); gl.compileShader(shader);
+            if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) throw new Error(`Shader failed to compile: ${gl.getShaderInfoLog(shader)}`);
+            return shader;
+        };
+        const program = gl.createProgram()!;
+        const vertex = compile(gl.VERTEX_SHADER, vertexSource), fragment = compile(gl.FRAGMENT_SHADER, fragmentSource);
+        gl.attachShader(program, vertex); gl.attachShader(program, fragment); gl.linkProgram(program);
+        gl.deleteShader(vertex); gl.deleteShader(fragment);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) throw new Error(`Shader failed to link: ${gl.getProgramInfoLog(program)}`);
+        this.uniforms.set(program, new Map());
+        return program;
+    }
+
+    private uniform(program: WebGLProgram, name: string) {
+        const locations = this.uniforms.get(program)!;
+        if (!locations.has(name)) locations.set(name, this.gl.getUniformLocation(program, name));
+        return locations.get(name)!;
+    }
+
+    private buffer(data: Float32Array, usage: number) {
+        const gl = this.gl;
+        const buffer = gl.createBuffer()!;
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffer); gl.bufferData(gl.ARRAY_BUFFER, data, usage);
+        this.buffers.push(buffer);
+        return buffer;
+    }
+
+    private texture(filter: number) {
+        const gl = this.gl;
+        const texture = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter); gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE); gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    private target(width: number, height: number): Target {
+        const gl = this.gl;
+        const texture = this.texture(gl.LINEAR);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA8, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null);
+        const framebuffer = gl.createFramebuffer()!;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        return { texture, framebuffer, width, height };
+    }
+
+    // Layers are uploaded flipped and premultiplied so they blit the right way up and blend like everything else.
+    private upload(texture: WebGLTexture, layer: CanvasRenderingContext2D) {
+        const gl = this.gl;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, true); gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+        gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, gl.RGBA, gl.UNSIGNED_BYTE, layer.canvas);
+    }
+
+    // Sprites are uploaded once, unflipped: the sprite shader reads them top row first.
+    private spriteTexture(image: HTMLCanvasElement) {
+        let entry = this.spriteTextures.get(image);
+        if (!entry) {
+            const gl = this.gl;
+            entry = { texture: this.texture(gl.LINEAR), lastUsed: 0 };
+            gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false); gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, true);
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, image);
+            this.spriteTextures.set(image, entry);
+        }
+        entry.lastUsed = this.frame;
+        return entry.texture;
+    }
+
+    // Shake moves the camera the other way, so it is folded into the centre rather than passed separately.
+    private setView(program: WebGLProgram) {
+        const gl = this.gl; const view = this.view;
+        gl.uniform4f(this.uniform(program, 'u_view'), view.camX + CANVAS_WIDTH / 2 - view.shakeX / view.zoom, view.camY + CANVAS_HEIGHT / 2 - view.shakeY / view.zoom, view.zoom, 0);
+        gl.uniform2f(this.uniform(program, 'u_resolution'), CANVAS_WIDTH, CANVAS_HEIGHT);
+    }
+
+    private pass(program: WebGLProgram, target: Target | null, textures: WebGLTexture[]) {
+        const gl = this.gl;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target ? target.framebuffer : null);
+        gl.viewport(0, 0, target ? target.width : this.canvas.width, target ? target.height : this.canvas.height);
+        gl.useProgram(program);
+        textures.forEach((texture, unit) => { gl.activeTexture(gl.TEXTURE0 + unit); gl.bindTexture(gl.TEXTURE_2D, texture); });
+        gl.bindVertexArray(this.quad);
+    }
+
+    drawBackdrop(sprites: readonly Sprite[], view: ViewTransform) {
+        const gl = this.gl;
+        if (sprites.length * SPRITE_FLOATS > this.sprites.length) {
+            this.sprites = new Float32Array(Math.max(sprites.length * SPRITE_FLOATS, this.sprites.length * 2));
+            gl.bindBuffer(gl.ARRAY_BUFFER, this.spriteBuffer); gl.bufferData(gl.ARRAY_BUFFER, this.sprites, gl.DYNAMIC_DRAW);
+        }
+        const data = this.sprites; const runs: SpriteRun[] = [];
+        sprites.forEach((s, i) => {
+            const texture = this.spriteTexture(s.image); const last = runs[runs.length - 1];
+            if (last && last.texture === texture) last.count++; else runs.push({ texture, start: i, count: 1 });
+            const o = i * SPRITE_FLOATS;
+            data[o] = s.x; data[o + 1] = s.y; data[o + 2] = s.w; data[o + 3] = s.h;
+        });
+        this.spriteRuns = runs;
+        this.view = view;
+        if (sprites.length === 0) return;
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.spriteBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, data, 0, sprites.length * SPRITE_FLOATS);
+    }
+
+    beginOverlay(key: string) {
+        if (key === this.overlayKey) return null;
+        this.overlayKey = key; this.overlayStale = true;
+        this.overlay.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        return key ? this.overlay : null;
+    }
+
+    drawParticles(pool: ParticlePool, view: ViewTransform, a11y: AccessibilitySettings) {
+        const data = this.instances;
+        let count = 0;
+        this.additiveStart = -1;
+        pool.forEachBatch((kind, color, start, end) => {
+            // Kinds arrive in enum order, so everything from the first streak on is additive.
+            if (this.additiveStart < 0 && (kind === ParticleKind.STREAK || kind === ParticleKind.SHOCKWAVE)) this.additiveStart = count;
+            const dim = a11y.reduceFlashes && (kind === ParticleKind.STREAK || kind === ParticleKind.SHOCKWAVE) ? 0.3 : 1;
+            const [r, g, b] = parseColor(kind === ParticleKind.BLOOD || kind === ParticleKind.LIQUID ? goreColor(color, a11y.gore) : color);
+            for (let n = start; n < end; n++) {
+                const i = pool.order[n]; const o = count++ * INSTANCE_FLOATS; const fade = pool.life[i] / pool.maxLife[i] * dim;
+                data[o] = pool.x[i]; data[o + 1] = pool.y[i]; data[o + 4] = r; data[o + 5] = g; data[o + 6] = b;
+                if (kind === ParticleKind.SHOCKWAVE) {
+                    // The Canvas2D ring is a 12px stroke centred on the radius, so the quad reaches 6px past it.
+                    const radius = pool.size[i] * (1 - pool.life[i] / pool.maxLife[i]);
+                    data[o + 2] = radius + 6; data[o + 3] = radius * 0.52 + 6; data[o + 7] = fade * fade; data[o + 8] = Math.min(1, 12 / (radius + 6));
+                } else {
+                    data[o + 2] = data[o + 3] = pool.size[i] / 2; data[o + 7] = fade; data[o + 8] = 0;
+                }
+            }
+        });
+        if (this.additiveStart < 0) this.additiveStart = count;
+        this.particleCount = count;
+        this.view = view;
+        if (count === 0) return;
+        const gl = this.gl;
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+        gl.bufferSubData(gl.ARRAY_BUFFER, 0, data, 0, count * INSTANCE_FLOATS);
+    }
+
+    present(a11y: AccessibilitySettings) {
+        const gl = this.gl;
+        if (gl.isContextLost()) return;
+        const { blit, sprite, particle, bright, blur, crt } = this.programs;
+
+        // Backdrop, scene, particles and overlay into the composite target.
+        this.pass(sprite, this.composite, []);
+        gl.clearColor(0, 0, 0, 1); gl.clear(gl.COLOR_BUFFER_BIT);
+        gl.enable(gl.BLEND); gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        if (this.spriteRuns.length > 0) {
+            this.setView(sprite);
+            gl.uniform1i(this.uniform(sprite, 'u_image'), 0);
+            gl.bindVertexArray(this.spriteVao);
+            gl.bindBuffer(gl.ARRAY_BUFFER, this.spriteBuffer);
+            gl.activeTexture(gl.TEXTURE0);
+            // As with the additive particles, each run points the instance attribute at its own offset.
+            this.spriteRuns.forEach(run => {
+                gl.bindTexture(gl.TEXTURE_2D, run.texture);
+                gl.vertexAttribPointer(1, 4, gl.FLOAT, false, SPRITE_FLOATS * 4, run.start * SPRITE_FLOATS * 4);
+                gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, run.count);
+            });
+        }
+
+        this.upload(this.sceneTexture, this.scene);
+        this.scene.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        this.pass(blit, this.composite, [this.sceneTexture]);
+        gl.uniform1i(this.uniform(blit, 'u_image'), 0);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+        if (this.particleCount > 0) {
+            gl.useProgram(particle);
+            this.setView(particle);
+            gl.bindVertexArray(this.particleVao);
+            if (this.additiveStart > 0) gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.additiveStart);
+            gl.blendFunc(gl.ONE, gl.ONE);
+            // WebGL2 has no base-instance draw, so the additive batch points the instance attributes at its own offset.
+            if (this.particleCount > this.additiveStart) {
+                gl.bindBuffer(gl.ARRAY_BUFFER, this.instanceBuffer);
+                const stride = INSTANCE_FLOATS * 4, base = this.additiveStart * stride;
+                gl.vertexAttribPointer(1, 4, gl.FLOAT, false, stride, base); gl.vertexAttribPointer(2, 4, gl.FLOAT, false, stride, base + 16); gl.vertexAttribPointer(3, 1, gl.FLOAT, false, stride, base + 32);
+                gl.drawArraysInstanced(gl.TRIANGLE_STRIP, 0, 4, this.particleCount - this.additiveStart);
+                gl.vertexAttribPointer(1, 4, gl.FLOAT, false, stride, 0); gl.vertexAttribPointer(2, 4, gl.FLOAT, false, stride, 16); gl.vertexAttribPointer(3, 1, gl.FLOAT, false, stride, 32);
+            }
+        }
+
+        if (this.overlayKey) {
+            if (this.overlayStale) { this.upload(this.overlayTexture, this.overlay); this.overlayStale = false; }
+            this.pass(blit, this.composite, [this.overlayTexture]);
+            gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+            gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        }
+        gl.disable(gl.BLEND);
+
+        // Bright parts at half resolution, blurred across then down.
+        const [bloomA, bloomB] = this.bloomTargets;
+        this.pass(bright, bloomA, [this.composite.texture]);
+        gl.uniform1i(this.uniform(bright, 'u_image'), 0);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        this.pass(blur, bloomB, [bloomA.texture]);
+        gl.uniform1i(this.uniform(blur, 'u_image'), 0); gl.uniform2f(this.uniform(blur, 'u_step'), 1 / bloomA.width, 0);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        this.pass(blur, bloomA, [bloomB.texture]);
+        gl.uniform2f(this.uniform(blur, 'u_step'), 0, 1 / bloomA.height);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+
+        this.pass(crt, null, [this.composite.texture, bloomA.texture]);
+        gl.uniform1i(this.uniform(crt, 'u_scene'), 0); gl.uniform1i(this.uniform(crt, 'u_bloom'), 1);
+        gl.uniform1f(this.uniform(crt, 'u_bloomStrength'), a11y.reduceFlashes ? BLOOM_STRENGTH_REDUCED : BLOOM_STRENGTH);
+        gl.uniform2f(this.uniform(crt, 'u_resolution'), this.canvas.width, this.canvas.height);
+        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        gl.bindVertexArray(null);
+
+        this.frame++;
+        this.spriteTextures.forEach((entry, image) => {
+            if (this.frame - entry.lastUsed > SPRITE_IDLE_FRAMES) { gl.deleteTexture(entry.texture); this.spriteTextures.delete(image); }
+        });
+    }
+
+    dispose() {
+        const gl = this.gl;
+        this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+        Object.values(this.programs).forEach(program => gl.deleteProgram(program));
+        this.buffers.forEach(buffer => gl.deleteBuffer(buffer));
+        gl.deleteVertexArray(this.quad); gl.deleteVertexArray(this.spriteVao); gl.deleteVertexArray(this.particleVao);
+        [this.sceneTexture, this.overlayTexture, ...[...this.spriteTextures.values()].map(entry => entry.texture)].forEach(texture => gl.deleteTexture(texture));
+        this.spriteTextures.clear();
+        [this.composite, ...this.bloomTargets].forEach(target => { gl.deleteFramebuffer(target.framebuffer); gl.deleteTexture(target.texture); });
+    }
+}
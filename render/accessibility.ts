@@ -0,0 +1,67 @@
+import { COLORS } from '../constants';
+import { isRecord, oneOf } from '../storage/storage';
+
+/** `sparks` recolours blood as coolant; `off` also stops dismemberment, splatter and blood on the player. */
+export type GoreStyle = 'blood' | 'sparks' | 'off';
+export type ColorblindMode = 'none' | 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export const GORE_STYLES: GoreStyle[] = ['blood', 'sparks', 'off'];
+export const COLORBLIND_MODES: ColorblindMode[] = ['none', 'protanopia', 'deuteranopia', 'tritanopia'];
+
+export interface AccessibilitySettings {
+    /** Multiplier on camera shake; 0 turns it off. */
+    shake: number;
+    /** Dims shockwave rings, petal bursts, glows and the dash speed lines. */
+    reduceFlashes: boolean;
+    /** Fraction of cosmetic particles spawned, 0.25..1. */
+    particles: number;
+    gore: GoreStyle;
+    colorblind: ColorblindMode;
+}
+
+export const defaultAccessibility = (): AccessibilitySettings => ({ shake: 1, reduceFlashes: false, particles: 1, gore: 'blood', colorblind: 'none' });
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.max(min, Math.min(max, value)) : fallback;
+
+export const normalizeAccessibility = (data: unknown): AccessibilitySettings => {
+    const defaults = defaultAccessibility();
+    const stored = isRecord(data) ? data : {};
+    return {
+        shake: clamp(stored.shake, 0, 1, defaults.shake),
+        reduceFlashes: typeof stored.reduceFlashes === 'boolean' ? stored.reduceFlashes : defaults.reduceFlashes,
+        particles: clamp(stored.particles, 0.25, 1, defaults.particles),
+        gore: oneOf(stored.gore, GORE_STYLES, defaults.gore),
+        colorblind: oneOf(stored.colorblind, COLORBLIND_MODES, defaults.colorblind)
+    };
+};
+
+/** Colours that carry gameplay meaning. Danger and summon are RGB so telegraphs can pulse their alpha. */
+export interface TelegraphPalette {
+    enemyEye: string;
+    bossEye: string;
+    bullet: string;
+    reflectedBullet: string;
+    danger: [number, number, number];
+    summon: [number, number, number];
+}
+
+// The colourblind sets draw on the Okabe-Ito palette, keeping each telegraph apart from its neighbours
+// and from the grey street under every type of dichromacy.
+export const TELEGRAPH_PALETTES: Record<ColorblindMode, TelegraphPalette> = {
+    none: { enemyEye: '#f43f5e', bossEye: '#ffea00', bullet: '#fbbf24', reflectedBullet: '#ffffff', danger: [239, 68, 68], summon: [168, 85, 247] },
+    protanopia: { enemyEye: '#56b4e9', bossEye: '#f0e442', bullet: '#e69f00', reflectedBullet: '#56b4e9', danger: [230, 159, 0], summon: [0, 114, 178] },
+    deuteranopia: { enemyEye: '#56b4e9', bossEye: '#f0e442', bullet: '#e69f00', reflectedBullet: '#56b4e9', danger: [213, 94, 0], summon: [0, 114, 178] },
+    tritanopia: { enemyEye: '#ff4d6d', bossEye: '#ffffff', bullet: '#d55e00', reflectedBullet: '#00e5ff', danger: [213, 94, 0], summon: [0, 158, 115] }
+};
+
+export const rgba = ([r, g, b]: [number, number, number], alpha: number) => `rgba(${r}, ${g}, ${b}, ${alpha})`;
+
+const SPARK_COLORS: { [blood: string]: string } = {
+    [COLORS.BLOOD]: '#22d3ee',
+    [COLORS.BLOOD_LIGHT]: '#a5f3fc',
+    '#ff0044': '#67e8f9'
+};
+
+/** Blood-coloured fills become coolant sparks outside the `blood` style; everything else passes through. */
+export const goreColor = (color: string, style: GoreStyle) => style === 'blood' ? color : (SPARK_COLORS[color] || color);
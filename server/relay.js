@@ -0,0 +1,137 @@
+// Room relay for online play. Plain Node, no dependencies: `npm run relay`, or started by main.js in the desktop build.
+// It never runs the game. A host opens a room and gets a code, one guest joins with it, and from then on every
+// message one of them sends is forwarded to the other with its seat attached. See net/protocol.ts for the messages.
+const http = require('http');
+const crypto = require('crypto');
+
+const DEFAULT_PORT = 8787;
+const ROOM_SEATS = 2;
+// No 0/O or 1/I, so codes survive being read out loud.
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+// Largest frame we accept; game messages are a few dozen bytes.
+const MAX_PAYLOAD = 64 * 1024;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// --- WEBSOCKET FRAMING (RFC 6455, text frames only) ---
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.from([0x80 | opcode, length])
+    : length < 65536 ? Buffer.from([0x80 | opcode, 126, length >> 8, length & 0xff])
+    : Buffer.concat([Buffer.from([0x80 | opcode, 127]), (() => { const b = Buffer.alloc(8); b.writeBigUInt64BE(BigInt(length)); return b; })()]);
+  return Buffer.concat([header, payload]);
+};
+
+// Pulls every complete frame off the front of `buffer`. Returns the frames and whatever is left over.
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset], second = buffer[offset + 1];
+    let length = second & 0x7f, cursor = offset + 2;
+    if (length === 126) { if (buffer.length - cursor < 2) break; length = buffer.readUInt16BE(cursor); cursor += 2; }
+    else if (length === 127) { if (buffer.length - cursor < 8) break; length = Number(buffer.readBigUInt64BE(cursor)); cursor += 8; }
+    if (length > MAX_PAYLOAD) return { frames, rest: null };
+    const masked = (second & 0x80) !== 0;
+    if (buffer.length - cursor < (masked ? 4 : 0) + length) break;
+    const mask = masked ? buffer.subarray(cursor, cursor + 4) : null;
+    if (masked) cursor += 4;
+    const payload = Buffer.from(buffer.subarray(cursor, cursor + length));
+    if (mask) for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = cursor + length;
+  }
+  return { frames, rest: buffer.subarray(offset) };
+};
+
+// --- ROOMS ---
+const rooms = new Map();
+
+const newRoomCode = () => {
+  let code;
+  do { code = Array.from(crypto.randomBytes(CODE_LENGTH), b => CODE_ALPHABET[b % CODE_ALPHABET.length]).join(''); } while (rooms.has(code));
+  return code;
+};
+
+const send = (client, message) => {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+};
+
+const leaveRoom = (client) => {
+  const room = client.room && rooms.get(client.room);
+  client.room = null;
+  if (!room) return;
+  room.seats[client.seat] = null;
+  room.seats.forEach(other => { if (other) send(other, { type: 'peer_left', seat: client.seat }); });
+  if (room.seats.every(seat => !seat)) rooms.delete(room.code);
+};
+
+const handleMessage = (client, message) => {
+  if (!message || typeof message.type !== 'string') return send(client, { type: 'error', reason: 'bad_message' });
+  if (message.type === 'host') {
+    leaveRoom(client);
+    const room = { code: newRoomCode(), seats: new Array(ROOM_SEATS).fill(null) };
+    rooms.set(room.code, room);
+    room.seats[0] = client; client.room = room.code; client.seat = 0;
+    return send(client, { type: 'room', code: room.code, seat: 0 });
+  }
+  if (message.type === 'join') {
+    const room = rooms.get(String(message.code || '').toUpperCase());
+    if (!room) return send(client, { type: 'error', reason: 'no_room' });
+    const seat = room.seats.indexOf(null);
+    if (seat < 0) return send(client, { type: 'error', reason: 'room_full' });
+    leaveRoom(client);
+    room.seats[seat] = client; client.room = room.code; client.seat = seat;
+    send(client, { type: 'room', code: room.code, seat });
+    room.seats.forEach(other => { if (other && other !== client) send(other, { type: 'peer_joined', seat }); });
+    return;
+  }
+  // Anything else is game traffic for the rest of the room.
+  const room = client.room && rooms.get(client.room);
+  if (!room) return;
+  const forwarded = { ...message, seat: client.seat };
+  room.seats.forEach(other => { if (other && other !== client) send(other, forwarded); });
+};
+
+const accept = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || String(req.headers.upgrade).toLowerCase() !== 'websocket') { socket.end('HTTP/1.1 400 Bad Request\r\n\r\n'); return; }
+  const digest = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${digest}\r\n\r\n`);
+  socket.setNoDelay(true);
+
+  const client = { socket, room: null, seat: -1 };
+  let pending = Buffer.alloc(0);
+  socket.on('data', chunk => {
+    const { frames, rest } = decodeFrames(Buffer.concat([pending, chunk]));
+    if (!rest) { socket.destroy(); return; }
+    pending = rest;
+    frames.forEach(frame => {
+      // Fragmented messages are never sent by the game, so a continuation frame means a client we don't speak to.
+      if (!frame.fin || frame.opcode === 0x0) { socket.destroy(); return; }
+      if (frame.opcode === 0x8) { socket.end(encodeFrame(0x8, Buffer.alloc(0))); return; }
+      if (frame.opcode === 0x9) { socket.write(encodeFrame(0xa, frame.payload)); return; }
+      if (frame.opcode !== 0x1) return;
+      let message;
+      try { message = JSON.parse(frame.payload.toString('utf8')); } catch (e) { send(client, { type: 'error', reason: 'bad_message' }); return; }
+      handleMessage(client, message);
+    });
+  });
+  socket.on('close', () => leaveRoom(client));
+  socket.on('error', () => socket.destroy());
+};
+
+/** Starts the relay. Resolves to the listening server once the port is bound. */
+const startRelay = ({ port = DEFAULT_PORT, host = '0.0.0.0' } = {}) => new Promise((resolve, reject) => {
+  const server = http.createServer((req, res) => { res.writeHead(426, { 'Content-Type': 'text/plain' }); res.end('Pixel Samurai relay: connect with a WebSocket.\n'); });
+  server.on('upgrade', accept);
+  server.once('error', reject);
+  server.listen(port, host, () => resolve(server));
+});
+
+module.exports = { startRelay, DEFAULT_PORT };
+
+if (require.main === module) {
+  const port = Number(process.env.RELAY_PORT || process.argv[2]) || DEFAULT_PORT;
+  startRelay({ port }).then(() => console.log(`Relay listening on ws://localhost:${port}`), err => { console.error(err.message); process.exit(1); });
+}
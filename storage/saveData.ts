@@ -0,0 +1,149 @@
+import { GameMode } from '../types';
+import { Bindings, DEFAULT_BINDINGS, DEFAULT_PARTNER_BINDINGS, INPUT_ACTIONS, cloneBindings } from '../input/bindings';
+import { StyleSharing, STYLE_SHARINGS } from '../engine/coop';
+import { KeyValueStorage, createDefaultStorage, isRecord, oneOf } from './storage';
+import { MixerSettings, defaultMixer, normalizeMixer } from '../audio/mixer';
+import { AccessibilitySettings, defaultAccessibility, normalizeAccessibility } from '../render/accessibility';
+import { detectLocale, isLocale } from '../i18n';
+import { DEFAULT_RELAY_URL } from '../net/protocol';
+import { RendererPreference, RENDERER_PREFERENCES } from '../render/Renderer';
+
+const SAVE_KEY = 'pixel-samurai.save';
+export const SAVE_VERSION = 1;
+export const MAX_HIGH_SCORES = 10;
+
+export interface HighScore {
+    score: number;
+    kills: number;
+    peakRank: string;
+    durationMs: number;
+    mode: GameMode;
+    /** Missing for solo runs. */
+    players?: number;
+    /** ISO timestamp of when the run ended. */
+    date: string;
+}
+
+export interface Settings {
+    /** Locale code from LOCALES; first run picks it from the browser language. */
+    language: string;
+    musicOn: boolean;
+    bindings: Bindings;
+    /** Player two's keys in local co-op. */
+    partnerBindings: Bindings;
+    styleSharing: StyleSharing;
+    /** WebSocket address of the relay used for online rooms. */
+    relayUrl: string;
+    renderer: RendererPreference;
+    mixer: MixerSettings;
+    accessibility: AccessibilitySettings;
+}
+
+export interface SaveData {
+    version: number;
+    highScores: HighScore[];
+    settings: Settings;
+}
+
+export const defaultSettings = (): Settings => ({ language: detectLocale(), musicOn: true, bindings: cloneBindings(DEFAULT_BINDINGS), partnerBindings: cloneBindings(DEFAULT_PARTNER_BINDINGS), styleSharing: 'shared', relayUrl: DEFAULT_RELAY_URL, renderer: 'auto', mixer: defaultMixer(), accessibility: defaultAccessibility() });
+
+export const defaultSave = (): SaveData => ({ version: SAVE_VERSION, highScores: [], settings: defaultSettings() });
+
+/**
+ * MIGRATIONS[n] upgrades a save from version n to n + 1. Add one entry (and bump SAVE_VERSION) whenever
+ * a stored field is renamed or reshaped; brand new optional fields are filled in by `normalize` instead.
+ */
+const MIGRATIONS: ((data: Record<string, unknown>) => Record<string, unknown>)[] = [
+    // 0 -> 1: first versioned schema, nothing to carry over.
+    data => ({ ...data, version: 1 })
+];
+
+const savedVersion = (data: Record<string, unknown>) => typeof data.version === 'number' ? data.version : 0;
+
+const normalizeBindings = (stored: unknown, defaults: Bindings): Bindings => {
+    const bindings = cloneBindings(defaults);
+    if (!isRecord(stored)) return bindings;
+    INPUT_ACTIONS.forEach(action => { const codes = stored[action]; if (Array.isArray(codes)) bindings[action] = codes.filter((c): c is string => typeof c === 'string'); });
+    return bindings;
+};
+
+const normalize = (data: Record<string, unknown>): SaveData => {
+    const defaults = defaultSettings();
+    const settings = isRecord(data.settings) ? data.settings : {};
+    return {
+        version: SAVE_VERSION,
+        highScores: Array.isArray(data.highScores) ? data.highScores.filter((h): h is HighScore => isRecord(h) && typeof h.score === 'number') : [],
+        settings: {
+            language: isLocale(settings.language) ? settings.language : defaults.language,
+            musicOn: typeof settings.musicOn === 'boolean' ? settings.musicOn : defaults.musicOn,
+            bindings: normalizeBindings(settings.bindings, DEFAULT_BINDINGS),
+            partnerBindings: normalizeBindings(settings.partnerBindings, DEFAULT_PARTNER_BINDINGS),
+            styleSharing: oneOf(settings.styleSharing, STYLE_SHARINGS, defaults.styleSharing),
+            relayUrl: typeof settings.relayUrl === 'string' && settings.relayUrl ? settings.relayUrl : defaults.relayUrl,
+            renderer: oneOf(settings.renderer, RENDERER_PREFERENCES, defaults.renderer),
+            mixer: normalizeMixer(settings.mixer),
+            accessibility: normalizeAccessibility(settings.accessibility)
+        }
+    };
+};
+
+/** Upgrades parsed save data to SAVE_VERSION and fills in anything missing. Throws for a save from a newer build. */
+export const migrateSave = (raw: unknown): SaveData => {
+    let data = isRecord(raw) ? raw : {};
+    let version = savedVersion(data);
+    if (version > SAVE_VERSION) throw new Error(`Save data version ${version} is newer than this build (${SAVE_VERSION})`);
+    while (version < SAVE_VERSION) { data = MIGRATIONS[version](data); version++; }
+    return normalize(data);
+};
+
+/** Loads, migrates and writes back the single save record. Reads are served from memory after `load()`. */
+export class SaveStore {
+    private data: SaveData = defaultSave();
+    private locked = false;
+
+    constructor(private readonly storage: KeyValueStorage) {}
+
+    get current() { return this.data; }
+
+    /**
+     * True when the save on disk came from a newer build. Its settings are read as well as this build understands them,
+     * but nothing is written back for the rest of the session, so going back to the newer build finds it untouched.
+     */
+    get readOnly() { return this.locked; }
+
+    async load(): Promise<SaveData> {
+        const text = await this.storage.get(SAVE_KEY);
+        let raw: unknown = null;
+        try {
+            raw = text ? JSON.parse(text) : null;
+        } catch (e) {
+            console.warn('Save data unreadable, starting fresh', e);
+        }
+        const stored = isRecord(raw) ? raw : {};
+        this.locked = savedVersion(stored) > SAVE_VERSION;
+        if (this.locked) console.warn(`Save data is from a newer build (version ${savedVersion(stored)}); nothing will be saved this session`);
+        this.data = this.locked ? normalize(stored) : migrateSave(stored);
+        return this.data;
+    }
+
+    private async persist() {
+        if (!this.locked) await this.storage.set(SAVE_KEY, JSON.stringify(this.data));
+    }
+
+    updateSettings(patch: Partial<Settings>) {
+        this.data = { ...this.data, settings: { ...this.data.settings, ...patch } };
+        return this.persist();
+    }
+
+    /** Adds a finished run to the table. Resolves to its place (0 is best), or -1 if it didn't make the table. */
+    async recordRun(entry: HighScore): Promise<number> {
+        const table = [...this.data.highScores, entry]
+            .sort((a, b) => b.score - a.score || a.durationMs - b.durationMs)
+            .slice(0, MAX_HIGH_SCORES);
+        this.data = { ...this.data, highScores: table };
+        await this.persist();
+        return table.indexOf(entry);
+    }
+}
+
+export const saveStore = new SaveStore(createDefaultStorage());
@@ -0,0 +1,44 @@
+/**
+ * Minimal async key-value store behind the save data. localStorage backs the web and Electron builds; on
+ * Capacitor an adapter over `@capacitor/preferences` can implement the same three calls.
+ */
+export interface KeyValueStorage {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string): Promise<void>;
+    remove(key: string): Promise<void>;
+}
+
+export class LocalStorageBackend implements KeyValueStorage {
+    async get(key: string) {
+        try { return localStorage.getItem(key); } catch (e) { console.warn('localStorage read failed', e); return null; }
+    }
+
+    async set(key: string, value: string) {
+        try { localStorage.setItem(key, value); } catch (e) { console.warn('localStorage write failed', e); }
+    }
+
+    async remove(key: string) {
+        try { localStorage.removeItem(key); } catch (e) { console.warn('localStorage remove failed', e); }
+    }
+}
+
+/** Keeps data for the session only: used when localStorage is unavailable (Node, locked-down webviews). */
+export class MemoryStorage implements KeyValueStorage {
+    private items = new Map<string, string>();
+
+    async get(key: string) { return this.items.get(key) ?? null; }
+
+    async set(key: string, value: string) { this.items.set(key, value); }
+
+    async remove(key: string) { this.items.delete(key); }
+}
+
+export const createDefaultStorage = (): KeyValueStorage =>
+    typeof localStorage !== 'undefined' ? new LocalStorageBackend() : new MemoryStorage();
+
+/** Narrows parsed JSON to a plain object, so stored data can be read field by field and checked as it goes. */
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** `value` if it is one of `allowed`, else `fallback`: for stored enums such as a gore style or renderer. */
+export const oneOf = <T>(value: unknown, allowed: readonly T[], fallback: T): T => allowed.includes(value as T) ? value as T : fallback;
@@ -0,0 +1,21 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { defaultAccessibility, goreColor, normalizeAccessibility } from '../render/accessibility';
+import { COLORS } from '../constants';
+
+test('normalizeAccessibility clamps ranges and drops unknown choices', () => {
+    const settings = normalizeAccessibility({ shake: 3, reduceFlashes: 1, particles: 0, gore: 'confetti', colorblind: 'tritanopia' });
+    const defaults = defaultAccessibility();
+    assert.equal(settings.shake, 1);
+    assert.equal(settings.reduceFlashes, defaults.reduceFlashes);
+    assert.equal(settings.particles, 0.25);
+    assert.equal(settings.gore, defaults.gore);
+    assert.equal(settings.colorblind, 'tritanopia');
+    assert.deepEqual(normalizeAccessibility(null), defaults);
+});
+
+test('sparks gore recolours blood but leaves other colours alone', () => {
+    assert.equal(goreColor(COLORS.BLOOD, 'blood'), COLORS.BLOOD);
+    assert.notEqual(goreColor(COLORS.BLOOD, 'sparks'), COLORS.BLOOD);
+    assert.equal(goreColor('#123456', 'sparks'), '#123456');
+});
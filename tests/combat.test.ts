@@ -0,0 +1,98 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameWorld, WorldHooks } from '../engine/GameWorld';
+import { DummyBehavior } from '../engine/training';
+import { EntityType, GameState } from '../types';
+import { MOVE_STEPS, PLAYER_SPEED } from '../constants';
+
+// A training world with one dummy, stepped once so the dummy is on the field.
+const trainingWorld = (dummyType: EntityType, behavior: DummyBehavior, infiniteHealth: boolean, hooks: Partial<WorldHooks> = {}) => {
+    const world = new GameWorld(hooks, { seed: 7, mode: 'training', training: { dummyType, behavior, count: 1, infiniteHealth, infiniteFocus: false } });
+    world.setState(GameState.PLAYING);
+    world.step({});
+    return world;
+};
+
+test('ground swings chain into a combo that kills a sword dummy', () => {
+    const world = trainingWorld(EntityType.ENEMY_SWORD, 'idle', false);
+    const dummy = world.enemies[0];
+    for (let t = 0; t < 600 && Math.abs(world.player.pos.x - dummy.pos.x) > 100; t++) world.step({ right: true });
+
+    const combo: number[] = [], health: number[] = [];
+    for (let swing = 0; swing < 3; swing++) {
+        world.step({ attack: true });
+        combo.push(world.player.comboIndex);
+        for (let t = 0; t < 14; t++) world.step({});
+        health.push(dummy.health);
+    }
+    assert.deepEqual(combo, [1, 2, 3]);
+    assert.ok(health[0] < dummy.maxHealth && health[1] < health[0], `each swing lands: ${health}`);
+    assert.ok(dummy.health <= 0);
+    assert.equal(world.kills, 1);
+    assert.equal(world.stats.killsByType[EntityType.ENEMY_SWORD], 1);
+    assert.equal(world.stats.longestCombo, 1);
+    assert.ok(world.stylePoints > 0);
+});
+
+test('a swing on an incoming bullet reflects it back at the shooter', () => {
+    const world = trainingWorld(EntityType.ENEMY_GUN, 'shoot', true);
+    for (let t = 0; t < 600 && world.enemies[0].pos.x - world.player.pos.x > 400; t++) world.step({ right: true });
+
+    let held = false;
+    for (let t = 0; t < 600 && world.stats.parries === 0; t++) {
+        const incoming = world.bullets.some(b => b.owner === 'enemy' && Math.abs(b.pos.x - (world.player.pos.x + 22)) < 140);
+        held = incoming && !held;
+        world.step({ attack: held });
+    }
+    assert.equal(world.stats.parries, 1);
+    const bullet = world.bullets.find(b => b.isReflected);
+    assert.ok(bullet, 'the parried bullet is still in flight');
+    assert.equal(bullet.owner, 'player');
+    assert.equal(bullet.parriedBy, 0);
+    assert.ok(bullet.vel.x > 0, 'it flies back towards the dummy');
+    assert.equal(world.player.health, world.player.maxHealth);
+    assert.deepEqual(world.stats.damageTaken, [0]);
+});
+
+// Puts the dummy mid-swing just outside sword reach, so the player's swing meets its blade instead of its body.
+const startClash = (hooks: Partial<WorldHooks> = {}) => {
+    const world = trainingWorld(EntityType.ENEMY_SWORD, 'attack', true, hooks);
+    const dummy = world.enemies[0];
+    dummy.pos.x = world.player.pos.x + 200; dummy.facing = -1; dummy.state = 'attack'; dummy.stateTimer = 30;
+    world.step({ attack: true });
+    assert.equal(world.state, GameState.CLASHING);
+    return world;
+};
+
+test('mashing attack wins a clash', () => {
+    const states: GameState[] = [];
+    const world = startClash({ onStateChange: state => states.push(state) });
+    for (let t = 0; t < 600 && world.state === GameState.CLASHING; t++) world.step({ attack: t % 2 === 0 });
+    assert.equal(world.state, GameState.PLAYING);
+    assert.deepEqual(states, [GameState.CLASHING, GameState.PLAYING]);
+    assert.equal(world.stats.clashesWon, 1);
+    assert.equal(world.stats.clashesLost, 0);
+    assert.equal(world.player.health, world.player.maxHealth);
+});
+
+test('a clash left alone is lost and drops the player to 1 health', () => {
+    const world = startClash();
+    for (let t = 0; t < 2000 && world.state === GameState.CLASHING; t++) world.step({});
+    assert.equal(world.state, GameState.PLAYING);
+    assert.equal(world.stats.clashesWon, 0);
+    assert.equal(world.stats.clashesLost, 1);
+    assert.equal(world.player.health, 1);
+    assert.deepEqual(world.stats.damageTaken, [world.player.maxHealth - 1]);
+});
+
+test('a half-tilted stick runs at half speed', () => {
+    const run = (move?: number) => {
+        const world = new GameWorld({}, { seed: 3 });
+        world.setState(GameState.PLAYING);
+        for (let t = 0; t < 30; t++) world.step({ right: true, move });
+        return world.player.vel.x;
+    };
+    assert.equal(run(), PLAYER_SPEED);
+    assert.equal(run(1), PLAYER_SPEED);
+    assert.equal(run(Math.round(MOVE_STEPS / 2) / MOVE_STEPS), PLAYER_SPEED * Math.round(MOVE_STEPS / 2) / MOVE_STEPS);
+});
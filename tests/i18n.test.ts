@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { FALLBACK_LOCALE, LOCALES, LOCALE_CODES, detectLocale, interpolate, isLocale, messagesFor } from '../i18n';
+
+// Every leaf key of a message table, as dotted paths.
+const keyPaths = (table: object, prefix = ''): string[] => Object.entries(table).flatMap(([key, value]) =>
+    typeof value === 'object' && value !== null ? keyPaths(value, `${prefix}${key}.`) : [`${prefix}${key}`]);
+
+test('every shipped locale resolves to a complete table', () => {
+    const english = keyPaths(messagesFor(FALLBACK_LOCALE));
+    LOCALE_CODES.forEach(code => assert.deepEqual(keyPaths(messagesFor(code)), english, code));
+});
+
+test('keys a locale leaves out, or gets wrong, come from English', () => {
+    LOCALES.test = { name: 'Test', messages: { paused: 'PAUSA', netErrors: { lost: 'PERDIDO' } } };
+    // A locale file that doesn't type-check still shouldn't break the menu.
+    Object.assign(LOCALES.test.messages, { resume: 7, channels: 'all' });
+    try {
+        const messages = messagesFor('test');
+        const english = messagesFor(FALLBACK_LOCALE);
+        assert.equal(messages.paused, 'PAUSA');
+        assert.equal(messages.netErrors.lost, 'PERDIDO');
+        assert.equal(messages.netErrors.peer_left, english.netErrors.peer_left);
+        assert.equal(messages.resume, english.resume);
+        assert.deepEqual(messages.channels, english.channels);
+        assert.equal(messages.quit, english.quit);
+    } finally {
+        delete LOCALES.test;
+    }
+});
+
+test('unknown codes play in the fallback locale', () => {
+    assert.equal(isLocale('xx'), false);
+    assert.equal(messagesFor('xx'), messagesFor(FALLBACK_LOCALE));
+});
+
+test('the browser language is matched on its primary subtag', () => {
+    assert.equal(detectLocale(['zh-TW', 'en-US']), 'zh');
+    assert.equal(detectLocale(['fr-FR', 'es-MX']), 'es');
+    assert.equal(detectLocale(['fr-FR']), FALLBACK_LOCALE);
+    assert.equal(detectLocale([]), FALLBACK_LOCALE);
+});
+
+test('placeholders are filled, and unknown ones are left visible', () => {
+    assert.equal(interpolate('{player} WINS', { player: 'P1' }), 'P1 WINS');
+    assert.equal(interpolate('{a} and {b}', { a: 1 }), '1 and {b}');
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InputManager } from '../input/InputManager';
+import { MOVE_STEPS } from '../constants';
+
+test('a stick held part-way carries its tilt, rounded to MOVE_STEPS', () => {
+    const input = new InputManager();
+    input.press('left', 'pad:0'); input.tilt(-0.41, 'pad:0');
+    assert.deepEqual(input.sample(), { left: true, move: -6 / MOVE_STEPS });
+    input.tilt(-1, 'pad:0');
+    assert.deepEqual(input.sample(), { left: true }, 'full tilt is plain input');
+    input.tilt(-0.001, 'pad:0');
+    assert.deepEqual(input.sample(), { left: true, move: -1 / MOVE_STEPS }, 'past the deadzone always moves');
+});
+
+test('a key holding the same direction runs at full speed', () => {
+    const input = new InputManager();
+    input.press('right', 'pad:0'); input.tilt(0.5, 'pad:0');
+    input.press('right', 'key:KeyD');
+    assert.deepEqual(input.sample(), { right: true });
+});
+
+test('releasing a pad drops its tilt with its actions', () => {
+    const input = new InputManager();
+    input.press('right', 'pad:0'); input.tilt(0.5, 'pad:0');
+    input.sample();
+    input.releaseSource('pad:0');
+    assert.deepEqual(input.sample(), {});
+    input.press('right', 'touch');
+    assert.deepEqual(input.sample(), { right: true });
+});
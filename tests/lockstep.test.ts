@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { INPUT_DELAY, HASH_INTERVAL, LockstepSession } from '../net/lockstep';
+import { ClientMessage, NetStart, ServerMessage } from '../net/protocol';
+import { GameWorld } from '../engine/GameWorld';
+import { isRecordedState } from '../engine/replay';
+import { InputFrame } from '../types';
+import { MOVE_STEPS } from '../constants';
+
+const START: NetStart = { seed: 42, mode: 'versus', styleSharing: 'split', round: 1 };
+
+// Two sessions joined by an in-memory relay. Messages wait in `inbox[seat]` until `deliver` hands them over,
+// with the sender's seat attached as the real relay does.
+const pair = (start = START) => {
+    const inbox: ServerMessage[][] = [[], []];
+    const sessions = [0, 1].map(seat => new LockstepSession(seat, start, (message: ClientMessage) => {
+        if (message.type === 'input' || message.type === 'hash') inbox[1 - seat].push({ ...message, seat });
+    }));
+    const deliver = (seat: number) => { inbox[seat].splice(0).forEach(message => sessions[seat].receive(message)); };
+    return { sessions, inbox, deliver };
+};
+
+test('the first INPUT_DELAY ticks run on empty input, then each tick waits for the other seat', () => {
+    const { sessions, deliver } = pair();
+    for (let tick = 0; tick < INPUT_DELAY; tick++) assert.deepEqual(sessions[0].advance({ attack: true }), [{}, {}]);
+    assert.equal(sessions[0].ready, false);
+    assert.equal(sessions[0].advance({}), null, 'stalls without seat 1');
+    assert.equal(sessions[0].tick, INPUT_DELAY);
+
+    sessions[1].advance({ left: true, move: -6 / MOVE_STEPS });
+    deliver(0);
+    assert.deepEqual(sessions[0].advance({}), [{ attack: true }, { left: true, move: -6 / MOVE_STEPS }]);
+});
+
+test('input from an earlier round is dropped', () => {
+    const { sessions } = pair();
+    for (let tick = 0; tick < INPUT_DELAY; tick++) sessions[0].advance({});
+    sessions[0].receive({ type: 'input', seat: 1, round: START.round - 1, tick: INPUT_DELAY, mask: 1 });
+    assert.equal(sessions[0].ready, false);
+});
+
+test('two peers step identical versus worlds', () => {
+    const { sessions, deliver } = pair();
+    const worlds = [0, 1].map(() => new GameWorld({}, { seed: START.seed, mode: START.mode, styleSharing: START.styleSharing }));
+    const localInput = (world: GameWorld, seat: number): InputFrame => {
+        const me = world.slots[seat].entity, other = world.slots[1 - seat].entity;
+        if (Math.abs(me.pos.x - other.pos.x) > 120) return other.pos.x > me.pos.x ? { right: true } : { left: true };
+        return { attack: (world.tick + seat * 2) % 5 === 0 };
+    };
+    const hashes: number[][] = [[], []];
+    for (let frame = 0; frame < 3000 && worlds.every(world => isRecordedState(world.state)); frame++) {
+        [0, 1].forEach(seat => {
+            const frames = sessions[seat].advance(localInput(worlds[seat], seat));
+            if (!frames) return;
+            worlds[seat].step(...frames);
+            hashes[seat].push(worlds[seat].checksum());
+            sessions[seat].verify(worlds[seat].tick, worlds[seat].checksum());
+        });
+        // Seat 1's messages arrive a frame late, so seat 0 regularly has to wait for them.
+        deliver(1);
+        if (frame % 2 === 1) deliver(0);
+    }
+    assert.ok(worlds[0].tick > HASH_INTERVAL * 2);
+    assert.deepEqual(sessions.map(session => session.desynced), [false, false]);
+    const ticks = Math.min(hashes[0].length, hashes[1].length);
+    assert.deepEqual(hashes[0].slice(0, ticks), hashes[1].slice(0, ticks));
+});
+
+test('a checksum that disagrees marks the session desynced', () => {
+    const { sessions, deliver } = pair();
+    sessions[0].verify(HASH_INTERVAL, 1234);
+    sessions[1].verify(HASH_INTERVAL, 1234);
+    deliver(0); deliver(1);
+    assert.deepEqual(sessions.map(session => session.desynced), [false, false]);
+    sessions[0].verify(HASH_INTERVAL * 2, 1);
+    sessions[1].verify(HASH_INTERVAL * 2, 2);
+    deliver(0); deliver(1);
+    assert.deepEqual(sessions.map(session => session.desynced), [true, true]);
+});
+
+test('checksums are only swapped every HASH_INTERVAL ticks', () => {
+    const { sessions, inbox } = pair();
+    sessions[0].verify(HASH_INTERVAL - 1, 5);
+    assert.equal(inbox[1].length, 0);
+    sessions[0].verify(HASH_INTERVAL, 5);
+    assert.deepEqual(inbox[1], [{ type: 'hash', seat: 0, round: START.round, tick: HASH_INTERVAL, hash: 5 }]);
+});
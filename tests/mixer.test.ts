@@ -0,0 +1,28 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BUSES, CUE_VOLUMES, busFor, cueVolume, defaultMixer, effectiveGain, normalizeMixer } from '../audio/mixer';
+
+test('normalizeMixer fills in missing buses and clamps levels', () => {
+    const mixer = normalizeMixer({ master: { volume: 2, muted: 'no' }, buses: { music: { volume: -1, muted: true }, sfx: 'loud' } });
+    assert.deepEqual(mixer.master, { volume: 1, muted: false });
+    assert.deepEqual(mixer.buses.music, { volume: 0, muted: true });
+    assert.deepEqual(mixer.buses.sfx, defaultMixer().buses.sfx);
+    assert.deepEqual(Object.keys(mixer.buses), BUSES);
+});
+
+test('normalizeMixer treats anything but an object as the defaults', () => {
+    for (const raw of [undefined, null, 1, 'mixer', []]) assert.deepEqual(normalizeMixer(raw), defaultMixer());
+});
+
+test('a muted bus is silent whatever its level', () => {
+    assert.equal(effectiveGain({ volume: 0.8, muted: true }), 0);
+    assert.equal(effectiveGain({ volume: 0.8, muted: false }), 0.8);
+});
+
+test('every cue has a level and a bus', () => {
+    assert.equal(cueVolume('reflect'), CUE_VOLUMES.reflect);
+    assert.ok(cueVolume('not_a_sound') > 0);
+    assert.equal(busFor('bgm'), 'music');
+    assert.equal(busFor('focus_loop'), 'ambience');
+    assert.equal(busFor('reflect'), 'sfx');
+});
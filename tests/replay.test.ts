@@ -0,0 +1,82 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameWorld, WorldOptions } from '../engine/GameWorld';
+import { INPUT_BITS, REPLAY_VERSION, ReplayRecorder, decodeInput, encodeInput, isRecordedState, matchesResult, parseReplay, runReplay, serializeReplay } from '../engine/replay';
+import { InputFrame } from '../types';
+import { MOVE_STEPS } from '../constants';
+
+// Walks back and forth swinging, part of the way on a half-tilted stick, with the odd jump, dodge and focus: enough
+// to fight, kill and take hits.
+const scriptedInput = (tick: number, player = 0): InputFrame => {
+    const t = tick + player * 37;
+    const input: InputFrame = { attack: t % 20 < 3, right: t % 400 < 200, left: t % 400 >= 200, up: t % 97 < 2, dodge: t % 150 < 2, focus: t % 900 < 1 };
+    if (t % 400 >= 100 && t % 400 < 300) input.move = (input.left ? -7 : 7) / MOVE_STEPS;
+    return input;
+};
+
+const TICKS = 6000;
+
+const playScripted = (options: WorldOptions, onTick?: (world: GameWorld) => void) => {
+    const world = new GameWorld({}, options);
+    const players = options.players ?? 1;
+    const recorder = new ReplayRecorder(options.seed!, options.mode, options.stageId, players, options.styleSharing);
+    for (let tick = 0; tick < TICKS && isRecordedState(world.state); tick++) {
+        const inputs = Array.from({ length: players }, (_, i) => scriptedInput(tick, i));
+        recorder.record(...inputs);
+        world.step(...inputs);
+        onTick?.(world);
+    }
+    return { world, replay: recorder.finish(world) };
+};
+
+test('input masks decode back to the same actions and stick tilt', () => {
+    for (let mask = 0; mask < 2 ** INPUT_BITS; mask++) assert.equal(encodeInput(decodeInput(mask)), mask);
+    assert.deepEqual(decodeInput(encodeInput({ left: true, attack: true })), { left: true, attack: true });
+    assert.deepEqual(decodeInput(encodeInput({ left: true, move: -4 / MOVE_STEPS })), { left: true, move: -4 / MOVE_STEPS });
+    assert.deepEqual(decodeInput(encodeInput({ right: true, move: 1 })), { right: true }, 'full tilt is plain input');
+});
+
+test('repeated input is run-length encoded', () => {
+    const recorder = new ReplayRecorder(1);
+    for (let i = 0; i < 5; i++) recorder.record({ right: true });
+    recorder.record({});
+    recorder.record({});
+    assert.deepEqual(recorder.finish(new GameWorld({}, { seed: 1 })).frames, [[encodeInput({ right: true }), 5], [0, 2]]);
+});
+
+test('a solo run survives a save and reload and replays to the same result', () => {
+    const { world, replay } = playScripted({ seed: 1234 });
+    assert.ok(world.score > 0, 'the script actually fights');
+    const loaded = parseReplay(serializeReplay(replay));
+    assert.deepEqual(loaded.frames, replay.frames);
+    const replayed = runReplay(loaded);
+    assert.ok(matchesResult(loaded, replayed));
+    assert.equal(replayed.checksum(), world.checksum());
+});
+
+test('a co-op stage run replays to the same result', () => {
+    const { world, replay } = playScripted({ seed: 99, mode: 'stage', players: 2, styleSharing: 'split' });
+    const replayed = runReplay(parseReplay(serializeReplay(replay)));
+    assert.equal(replayed.slots.length, 2);
+    assert.ok(matchesResult(replay, replayed));
+    assert.equal(replayed.checksum(), world.checksum());
+});
+
+test('the same seed and input give the same world on every tick', () => {
+    const hashes: number[] = [];
+    playScripted({ seed: 42 }, world => hashes.push(world.checksum()));
+    let tick = 0;
+    playScripted({ seed: 42 }, world => assert.equal(world.checksum(), hashes[tick++], `diverged at tick ${tick}`));
+    assert.equal(tick, hashes.length);
+
+    const other: number[] = [];
+    playScripted({ seed: 43 }, world => other.push(world.checksum()));
+    assert.notDeepEqual(other, hashes);
+});
+
+test('files that are not replays, or from another version, are refused', () => {
+    const { replay } = playScripted({ seed: 5 });
+    assert.throws(() => parseReplay('{"hello":1}'), /Not a replay/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...replay, version: REPLAY_VERSION + 1 })), /Unsupported replay version/);
+    assert.throws(() => parseReplay(JSON.stringify({ ...replay, tickRate: 30 })), /Hz/);
+});
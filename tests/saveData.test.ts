@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SAVE_VERSION, SaveStore, defaultSettings, migrateSave } from '../storage/saveData';
+import { MemoryStorage } from '../storage/storage';
+import { DEFAULT_BINDINGS } from '../input/bindings';
+
+const SAVE_KEY = 'pixel-samurai.save';
+
+test('an unversioned save is migrated and keeps its settings and scores', () => {
+    const save = migrateSave({ highScores: [{ score: 12, kills: 3, peakRank: 'B', durationMs: 1000, mode: 'endless', date: '2024-01-01' }], settings: { musicOn: false, language: 'ja' } });
+    assert.equal(save.version, SAVE_VERSION);
+    assert.equal(save.highScores.length, 1);
+    assert.equal(save.settings.musicOn, false);
+    assert.equal(save.settings.language, 'ja');
+});
+
+test('malformed fields fall back to their defaults', () => {
+    const defaults = defaultSettings();
+    const save = migrateSave({
+        highScores: [null, { score: 'lots' }, { score: 5 }],
+        settings: { musicOn: 'yes', language: 'xx', styleSharing: 'both', renderer: 'vulkan', relayUrl: '', bindings: { attack: ['KeyF', 7] }, mixer: 3, accessibility: { shake: 4, gore: 'lots' } }
+    });
+    assert.deepEqual(save.highScores, [{ score: 5 }]);
+    assert.equal(save.settings.musicOn, defaults.musicOn);
+    assert.equal(save.settings.styleSharing, defaults.styleSharing);
+    assert.equal(save.settings.renderer, defaults.renderer);
+    assert.equal(save.settings.relayUrl, defaults.relayUrl);
+    assert.deepEqual(save.settings.bindings.attack, ['KeyF']);
+    assert.deepEqual(save.settings.bindings.left, DEFAULT_BINDINGS.left);
+    assert.deepEqual(save.settings.mixer, defaults.mixer);
+    assert.equal(save.settings.accessibility.shake, 1);
+    assert.equal(save.settings.accessibility.gore, defaults.accessibility.gore);
+});
+
+test('anything that is not an object loads as a fresh save', () => {
+    for (const raw of [null, 7, 'save', []]) assert.deepEqual(migrateSave(raw).highScores, []);
+});
+
+test('a save from a newer build is refused by migrateSave', () => {
+    assert.throws(() => migrateSave({ version: SAVE_VERSION + 1 }), /newer than this build/);
+});
+
+test('the store never writes over a save from a newer build', async () => {
+    const storage = new MemoryStorage();
+    const newer = JSON.stringify({ version: SAVE_VERSION + 1, highScores: [{ score: 9 }], settings: { musicOn: false, somethingNew: true } });
+    await storage.set(SAVE_KEY, newer);
+    const store = new SaveStore(storage);
+    const data = await store.load();
+    assert.equal(store.readOnly, true);
+    assert.equal(data.settings.musicOn, false);
+    await store.updateSettings({ musicOn: true });
+    await store.recordRun({ score: 100, kills: 1, peakRank: 'D', durationMs: 10, mode: 'endless', date: '2024-01-01' });
+    assert.equal(await storage.get(SAVE_KEY), newer);
+    assert.equal(store.current.settings.musicOn, true, 'changes still apply for the session');
+});
+
+test('an unreadable save is replaced once something is saved', async () => {
+    const storage = new MemoryStorage();
+    await storage.set(SAVE_KEY, '{not json');
+    const store = new SaveStore(storage);
+    const data = await store.load();
+    assert.equal(store.readOnly, false);
+    assert.deepEqual(data.highScores, []);
+    await store.updateSettings({ musicOn: false });
+    assert.equal(JSON.parse((await storage.get(SAVE_KEY))!).settings.musicOn, false);
+});
+
+test('the high-score table is sorted and capped', async () => {
+    const store = new SaveStore(new MemoryStorage());
+    await store.load();
+    const places: number[] = [];
+    for (const score of [5, 50, 20]) places.push(await store.recordRun({ score, kills: 0, peakRank: 'D', durationMs: 10, mode: 'endless', date: '2024-01-01' }));
+    assert.deepEqual(places, [0, 0, 1]);
+    assert.deepEqual(store.current.highScores.map(h => h.score), [50, 20, 5]);
+    for (let i = 0; i < 20; i++) await store.recordRun({ score: 100 + i, kills: 0, peakRank: 'D', durationMs: 10, mode: 'endless', date: '2024-01-01' });
+    assert.equal(store.current.highScores.length, 10);
+    assert.equal(await store.recordRun({ score: 1, kills: 0, peakRank: 'D', durationMs: 10, mode: 'endless', date: '2024-01-01' }), -1);
+});
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameWorld } from '../engine/GameWorld';
+import { VERSUS_HIT_DAMAGE, VERSUS_SPIN_DAMAGE, VERSUS_SPIN_INTERVAL } from '../engine/versus';
+import { GameState, InputFrame } from '../types';
+
+// A duel with player two standing `gap` px in front of player one, facing them.
+const duel = (gap: number) => {
+    const world = new GameWorld({}, { seed: 11, mode: 'versus', players: 2 });
+    world.setState(GameState.PLAYING);
+    world.step({}, {});
+    const [a, b] = world.slots.map(slot => slot.entity);
+    b.pos.x = a.pos.x + gap; b.pos.y = a.pos.y; a.facing = 1; b.facing = 1;
+    return world;
+};
+
+const hold = (world: GameWorld, ticks: number, input: InputFrame) => { for (let t = 0; t < ticks; t++) world.step(input, {}); };
+
+test('a swing lands on the other samurai once, however long it lasts', () => {
+    for (const swing of [{ attack: true }, { attack: true, up: true }]) {
+        const world = duel(100);
+        world.step(swing, {});
+        hold(world, 60, {});
+        assert.deepEqual(world.stats.damageTaken, [0, VERSUS_HIT_DAMAGE], JSON.stringify(swing));
+    }
+});
+
+test('each new swing can land again', () => {
+    const world = duel(100);
+    for (let swing = 0; swing < 2; swing++) {
+        world.step({ attack: true }, {});
+        hold(world, 40, {});
+        world.slots[1].entity.pos.x = world.slots[0].entity.pos.x + 100;
+    }
+    assert.ok(world.stats.damageTaken[1] >= VERSUS_HIT_DAMAGE * 2);
+});
+
+test('a held spin lands every VERSUS_SPIN_INTERVAL ticks', () => {
+    const world = duel(100);
+    const [a, b] = world.slots.map(slot => slot.entity);
+    a.slowMoEnergy = 300;
+    hold(world, 40, { attack: true });
+    assert.equal(a.state, 'spin_attack');
+    const before = world.stats.damageTaken[1];
+    for (let t = 0; t < VERSUS_SPIN_INTERVAL * 3; t++) { b.pos.x = a.pos.x + 100; b.vel.x = 0; world.step({ attack: true }, {}); }
+    assert.equal(world.stats.damageTaken[1] - before, VERSUS_SPIN_DAMAGE * 3);
+});
@@ -16,7 +16,13 @@ export enum GameState {
   CLASHING,
   GAME_OVER,
   VICTORY,
-  GUIDE
+  GUIDE,
+  CONTROLS,
+  RECORDS,
+  AUDIO,
+  ACCESSIBILITY,
+  PAUSED,
+  ONLINE
 }
 
 export interface Vector2 {
@@ -24,6 +30,13 @@ export interface Vector2 {
   y: number;
 }
 
+export type InputAction = 'left' | 'right' | 'up' | 'down' | 'jump' | 'attack' | 'focus' | 'dodge';
+
+// Logical actions held during one simulation tick. Missing actions count as released.
+// `move` is how far a stick is tilted, -1 (left) to 1 (right) in steps of 1 / MOVE_STEPS; without it a held
+// direction runs at full speed.
+export type InputFrame = { [A in InputAction]?: boolean } & { move?: number };
+
 export type ActionState = 'idle' | 'run' | 'jump' | 'attack' | 'dodge' | 'hurt' | 'clash' | 'dash_attack' | 'launcher' | 'downward_strike' | 'air_attack' | 'spin_attack';
 
 export interface Entity {
@@ -51,6 +64,19 @@ export interface Entity {
   slowMoEnergy?: number; // 0 - 100
   isSlowMoActive?: boolean;
   capePoints?: Vector2[]; // For physical cape simulation
+  dropTimer?: number; // Ticks left falling through one-way platforms
+  climbCooldown?: number; // Enemy AI: ticks until it may jump for a platform again
+  boss?: BossState; // Only set on bosses
+  dummy?: 'idle' | 'attack' | 'shoot'; // Only set on training dummies
+  lastHitBy?: number; // Enemies: slot of the samurai who hit it last, credited with the kill
+}
+
+export type BossMove = 'swing' | 'lunge' | 'shockwave' | 'volley' | 'summon';
+
+export interface BossState {
+  phase: number;
+  move: BossMove | null; // Move being telegraphed or performed
+  intro: number; // Ticks left of the entrance
 }
 
 export interface ActionRecord {
@@ -105,20 +131,8 @@ export interface Bullet {
   radius: number;
   isReflected: boolean;
   hitList: string[]; 
-}
-
-export interface Particle {
-  id: string;
-  pos: Vector2;
-  vel: Vector2;
-  life: number;
-  maxLife: number;
-  color: string;
-  size: number;
-  isBlood?: boolean;
-  isLiquid?: boolean;
-  isShockwave?: boolean; 
-  isStreak?: boolean;    
+  kind?: 'shuriken' | 'shockwave'; // Shockwaves roll along the ground and can only be jumped or dodged
+  parriedBy?: number; // Slot of the samurai who sent it back
 }
 
 export interface MapObject {
@@ -138,3 +152,17 @@ export interface Bird {
   flapSpeed: number;
   size: number;
 }
+
+export interface Graffiti {
+  x: number;
+  y: number;
+  text?: string;
+  type: 'text' | 'shape';
+  color: string;
+  rotation: number;
+  scale: number;
+}
+
+// 'stage' plays an authored wave script to a VICTORY; 'endless' keeps spawning until the player falls.
+// 'versus' pits two samurai against each other with no enemies, until one of them falls.
+export type GameMode = 'stage' | 'endless' | 'training' | 'versus';